@@ -0,0 +1,107 @@
+/**
+ * Access policies shared by the Miniapp and Core plugins
+ * Decides whether a verified FID may sign in or link, before any user row is written
+ */
+import { APIError } from "better-auth/api";
+import type { FarcasterAccessContext, FarcasterAccessPolicy, FarcasterAccessRule } from "./types";
+
+/**
+ * Check a verified FID against an access policy
+ * @param policy - The `accessPolicy` option, if set
+ * @param context - The FID, flow and action being attempted
+ * @throws APIError FORBIDDEN with code `ACCESS_DENIED` and a `reason` if the FID is refused
+ */
+export async function checkAccessPolicy(
+    policy: FarcasterAccessPolicy | undefined,
+    context: FarcasterAccessContext
+): Promise<void> {
+    if (!policy) {
+        return;
+    }
+
+    if (policy.denyFids?.includes(context.fid)) {
+        throw accessDenied("FID_DENIED");
+    }
+
+    if (policy.allowFids && !policy.allowFids.includes(context.fid)) {
+        throw accessDenied("FID_NOT_ALLOWED");
+    }
+
+    for (const rule of policy.rules || []) {
+        const decision = await rule(context);
+        if (decision === true) continue;
+        if (decision === false) {
+            throw accessDenied("RULE_REJECTED");
+        }
+        if (!decision.allowed) {
+            throw accessDenied(decision.reason || "RULE_REJECTED", decision.message);
+        }
+    }
+}
+
+function accessDenied(reason: string, message?: string) {
+    return new APIError("FORBIDDEN", {
+        message: message || "This Farcaster account is not allowed to sign in",
+        code: "ACCESS_DENIED",
+        reason,
+    });
+}
+
+/**
+ * Only allow FIDs registered at least `minAge` milliseconds ago
+ * @param options.minAge - Minimum age of the FID in milliseconds
+ * @param options.resolveRegisteredAt - Look up when an FID was registered (e.g., from a hub or Neynar); null if unknown
+ *
+ * @example
+ * ```ts
+ * requireMinFidAge({
+ *     minAge: 30 * 24 * 60 * 60 * 1000,
+ *     resolveRegisteredAt: async (fid) => new Date((await neynar.fetchUser(fid)).registeredAt),
+ * })
+ * ```
+ */
+export function requireMinFidAge(options: {
+    minAge: number;
+    resolveRegisteredAt: (fid: number) => Promise<Date | null>;
+}): FarcasterAccessRule {
+    return async ({ fid }) => {
+        const registeredAt = await options.resolveRegisteredAt(fid);
+        return {
+            allowed: !!registeredAt && Date.now() - registeredAt.getTime() >= options.minAge,
+            reason: "FID_TOO_NEW",
+            message: "This Farcaster account is too new to sign in",
+        };
+    };
+}
+
+/**
+ * Only allow FIDs with at least `minFollowers` followers
+ * @param options.minFollowers - Minimum follower count
+ * @param options.resolveFollowerCount - Look up an FID's follower count (e.g., from a hub or Neynar)
+ */
+export function requireMinFollowers(options: {
+    minFollowers: number;
+    resolveFollowerCount: (fid: number) => Promise<number>;
+}): FarcasterAccessRule {
+    return async ({ fid }) => ({
+        allowed: (await options.resolveFollowerCount(fid)) >= options.minFollowers,
+        reason: "NOT_ENOUGH_FOLLOWERS",
+        message: "This Farcaster account doesn't have enough followers to sign in",
+    });
+}
+
+/**
+ * Only allow members of a Farcaster channel
+ * @param options.channelId - The channel ID (e.g., "farcaster")
+ * @param options.isMember - Check whether an FID is a member of the channel
+ */
+export function requireChannelMember(options: {
+    channelId: string;
+    isMember: (fid: number, channelId: string) => Promise<boolean>;
+}): FarcasterAccessRule {
+    return async ({ fid }) => ({
+        allowed: await options.isMember(fid, options.channelId),
+        reason: "NOT_A_CHANNEL_MEMBER",
+        message: `Only members of /${options.channelId} can sign in`,
+    });
+}
@@ -0,0 +1,279 @@
+/**
+ * Farcaster account rows shared by the Miniapp and Core plugins
+ * Keeps the `account` table in step with the `fid` column on the user, so
+ * Better Auth's `listAccounts` and account linking see the same data as the plugins
+ */
+import type { AuthContext } from "better-auth";
+import { APIError } from "better-auth/api";
+
+/**
+ * Default `providerId` of Farcaster rows in the account table
+ */
+export const DEFAULT_FARCASTER_PROVIDER_ID = "Farcaster";
+
+type Adapter = AuthContext["adapter"];
+
+// Records as returned by the adapter
+type UserRecord = { id: string; fid?: number | null;[key: string]: unknown };
+type AccountRecord = { id: string; userId: string; accountId: string; providerId: string };
+
+/**
+ * Create the Farcaster account row for a user if it doesn't exist yet
+ * @param adapter - Adapter (or transaction adapter) to write with
+ * @param params.userId - The user owning the FID
+ * @param params.fid - The Farcaster ID
+ * @param params.providerId - Account `providerId` (defaults to "Farcaster")
+ */
+export async function ensureFarcasterAccount(
+    adapter: Pick<Adapter, "findOne" | "create">,
+    params: { userId: string; fid: number; providerId?: string }
+): Promise<void> {
+    const providerId = params.providerId || DEFAULT_FARCASTER_PROVIDER_ID;
+
+    const existingAccount = await adapter.findOne<AccountRecord>({
+        model: "account",
+        where: [
+            { field: "providerId", value: providerId },
+            { field: "accountId", value: String(params.fid) },
+        ],
+    });
+
+    if (existingAccount) {
+        if (existingAccount.userId !== params.userId) {
+            throw new APIError("BAD_REQUEST", {
+                message: "This Farcaster account is already linked to another user",
+            });
+        }
+        return;
+    }
+
+    await adapter.create({
+        model: "account",
+        data: {
+            accountId: String(params.fid),
+            providerId,
+            userId: params.userId,
+        },
+    });
+}
+
+/**
+ * Set the user's FID and create the matching account row in one transaction
+ * Throws if the FID is already linked to another user
+ * @returns The updated user, or null if the user doesn't exist
+ */
+export async function linkFarcasterAccount(
+    adapter: Adapter,
+    params: { userId: string; fid: number; providerId?: string }
+): Promise<UserRecord | null> {
+    return adapter.transaction(async (trx) => {
+        const existingUser = await trx.findOne<UserRecord>({
+            model: "user",
+            where: [{ field: "fid", value: params.fid }],
+        });
+
+        if (existingUser && existingUser.id !== params.userId) {
+            throw new APIError("BAD_REQUEST", {
+                message: "This Farcaster account is already linked to another user",
+            });
+        }
+
+        const updatedUser = await trx.update<UserRecord>({
+            model: "user",
+            where: [{ field: "id", value: params.userId }],
+            update: { fid: params.fid },
+        });
+
+        if (!updatedUser) {
+            return null;
+        }
+
+        await ensureFarcasterAccount(trx, params);
+        return updatedUser;
+    });
+}
+
+/**
+ * Clear the user's FID and delete their Farcaster account rows and profile in one transaction
+ * Refuses when Farcaster is the user's only sign-in method, unless `force` is set
+ * @returns The updated user, or null if the user doesn't exist
+ */
+export async function unlinkFarcasterAccount(
+    adapter: Adapter,
+    params: { userId: string; providerId?: string; force?: boolean }
+): Promise<UserRecord | null> {
+    const providerId = params.providerId || DEFAULT_FARCASTER_PROVIDER_ID;
+
+    return adapter.transaction(async (trx) => {
+        if (!params.force) {
+            // Any other account (password, social, SIWE, ...) can still sign the user in
+            const accounts = await trx.findMany<AccountRecord>({
+                model: "account",
+                where: [{ field: "userId", value: params.userId }],
+            });
+
+            if (!accounts.some((account) => account.providerId !== providerId)) {
+                throw new APIError("BAD_REQUEST", {
+                    message: "Cannot unlink Farcaster because it is the only sign-in method",
+                    code: "LAST_SIGN_IN_METHOD",
+                });
+            }
+        }
+
+        const updatedUser = await trx.update<UserRecord>({
+            model: "user",
+            where: [{ field: "id", value: params.userId }],
+            update: { fid: null },
+        });
+
+        if (!updatedUser) {
+            return null;
+        }
+
+        await trx.deleteMany({
+            model: "account",
+            where: [
+                { field: "providerId", value: providerId },
+                { field: "userId", value: params.userId },
+            ],
+        });
+        await trx.deleteMany({
+            model: "farcasterProfile",
+            where: [{ field: "userId", value: params.userId }],
+        });
+        return updatedUser;
+    });
+}
+
+/**
+ * Options for {@link repairFarcasterAccounts}
+ */
+export interface RepairFarcasterAccountsOptions {
+    /**
+     * Account `providerId` used by the plugins
+     * @default "Farcaster"
+     */
+    providerId?: string;
+    /**
+     * Only count the changes, without writing them
+     * @default false
+     */
+    dryRun?: boolean;
+    /**
+     * Number of rows read per query
+     * @default 500
+     */
+    batchSize?: number;
+}
+
+/**
+ * Result of {@link repairFarcasterAccounts}
+ */
+export interface RepairFarcasterAccountsResult {
+    /** Account rows created for users with an FID but no account row */
+    created: number;
+    /** Account rows moved to the user that holds their FID */
+    updated: number;
+    /** Account rows deleted because no user holds their FID */
+    deleted: number;
+}
+
+/**
+ * Reconcile the account table with the `fid` column of existing users
+ * Run once after upgrading, since earlier versions linked and unlinked without touching account rows
+ *
+ * @param auth - Your Better Auth instance
+ * @param options - Repair options
+ *
+ * @example
+ * ```ts
+ * import { repairFarcasterAccounts } from "better-auth-farcaster-plugin";
+ *
+ * const result = await repairFarcasterAccounts(auth, { dryRun: true });
+ * console.log(result); // { created: 3, updated: 0, deleted: 1 }
+ * ```
+ */
+export async function repairFarcasterAccounts(
+    auth: { $context: Promise<{ adapter: Adapter }> },
+    options: RepairFarcasterAccountsOptions = {}
+): Promise<RepairFarcasterAccountsResult> {
+    const { adapter } = await auth.$context;
+    const providerId = options.providerId || DEFAULT_FARCASTER_PROVIDER_ID;
+    const batchSize = options.batchSize ?? 500;
+
+    // FIDs are positive, so this matches every user with an FID set
+    const fidOwners = new Map<string, string>();
+    for (let offset = 0; ; offset += batchSize) {
+        const users = await adapter.findMany<UserRecord>({
+            model: "user",
+            where: [{ field: "fid", operator: "gt", value: 0 }],
+            limit: batchSize,
+            offset,
+            sortBy: { field: "id", direction: "asc" },
+        });
+        for (const user of users) {
+            if (user.fid) fidOwners.set(String(user.fid), user.id);
+        }
+        if (users.length < batchSize) break;
+    }
+
+    // Collect changes first so writes don't shift the pages being read
+    const seen = new Set<string>();
+    const toUpdate: { id: string; userId: string }[] = [];
+    const toDelete: string[] = [];
+    for (let offset = 0; ; offset += batchSize) {
+        const accounts = await adapter.findMany<AccountRecord>({
+            model: "account",
+            where: [{ field: "providerId", value: providerId }],
+            limit: batchSize,
+            offset,
+            sortBy: { field: "id", direction: "asc" },
+        });
+        for (const account of accounts) {
+            const ownerId = fidOwners.get(account.accountId);
+            if (!ownerId || seen.has(account.accountId)) {
+                toDelete.push(account.id);
+                continue;
+            }
+            seen.add(account.accountId);
+            if (account.userId !== ownerId) {
+                toUpdate.push({ id: account.id, userId: ownerId });
+            }
+        }
+        if (accounts.length < batchSize) break;
+    }
+
+    const toCreate = [...fidOwners].filter(([fid]) => !seen.has(fid));
+
+    const result: RepairFarcasterAccountsResult = {
+        created: toCreate.length,
+        updated: toUpdate.length,
+        deleted: toDelete.length,
+    };
+
+    if (options.dryRun) {
+        return result;
+    }
+
+    for (const { id, userId } of toUpdate) {
+        await adapter.update({
+            model: "account",
+            where: [{ field: "id", value: id }],
+            update: { userId },
+        });
+    }
+    for (const id of toDelete) {
+        await adapter.delete({
+            model: "account",
+            where: [{ field: "id", value: id }],
+        });
+    }
+    for (const [fid, userId] of toCreate) {
+        await adapter.create({
+            model: "account",
+            data: { accountId: fid, providerId, userId },
+        });
+    }
+
+    return result;
+}
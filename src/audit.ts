@@ -0,0 +1,236 @@
+/**
+ * Audit log shared by the Miniapp and Core plugins
+ * Records sign-ins, sign-ups, links, unlinks and failures in the optional `farcasterAuthEvent` model
+ */
+import type { AuthContext, BetterAuthPlugin, Where } from "better-auth";
+import { APIError, createAuthEndpoint, getIP, sessionMiddleware } from "better-auth/api";
+import { z } from "zod";
+import type { FarcasterShared } from "./shared";
+import type {
+    FarcasterAuditLogOptions,
+    FarcasterAuthEvent,
+    FarcasterAuthEventsResponse,
+    FarcasterAuthEventType,
+    FarcasterAuthFlow,
+    FarcasterUser,
+} from "./types";
+
+const AUDIT_MODEL = "farcasterAuthEvent";
+
+const MAX_QUERY_LIMIT = 200;
+
+/**
+ * Database schema for the `farcasterAuthEvent` model, added when `auditLog` is enabled
+ */
+export const farcasterAuthEventSchema = {
+    farcasterAuthEvent: {
+        fields: {
+            type: { type: "string", required: true },
+            outcome: { type: "string", required: true },
+            fid: { type: "number", required: false },
+            // Not a reference, so the log outlives deleted users
+            userId: { type: "string", required: false },
+            flow: { type: "string", required: false },
+            ipAddress: { type: "string", required: false },
+            userAgent: { type: "string", required: false },
+            channelToken: { type: "string", required: false },
+            reason: { type: "string", required: false },
+            createdAt: { type: "date", required: true },
+        },
+    },
+} satisfies BetterAuthPlugin["schema"];
+
+/**
+ * Event to record; the IP and user agent are read from the request
+ */
+export interface FarcasterAuthEventInput {
+    type: FarcasterAuthEventType;
+    outcome: "success" | "failure";
+    fid?: number;
+    userId?: string;
+    flow?: FarcasterAuthFlow;
+    channelToken?: string;
+    reason?: string;
+}
+
+/**
+ * Resolve the `auditLog` option, or null when the audit log is off
+ */
+export function resolveAuditLogOptions(option: boolean | FarcasterAuditLogOptions | undefined): FarcasterAuditLogOptions | null {
+    if (!option) {
+        return null;
+    }
+    return option === true ? {} : option;
+}
+
+/**
+ * Record an event in the audit log
+ * Does nothing when the `farcasterAuthEvent` model isn't part of the schema,
+ * and never fails the request it is recorded for
+ * @param ctx - The endpoint context, or the Better Auth context and request
+ * @param event - The event to record
+ */
+export async function recordAuthEvent(
+    ctx: { context: AuthContext; request?: Request; headers?: Headers },
+    event: FarcasterAuthEventInput
+): Promise<void> {
+    const { context } = ctx;
+    if (!context.tables[AUDIT_MODEL]) {
+        return;
+    }
+
+    const source = ctx.request || ctx.headers;
+    try {
+        await context.adapter.create({
+            model: AUDIT_MODEL,
+            data: {
+                ...event,
+                ipAddress: source ? getIP(source, context.options) : null,
+                userAgent: (ctx.request?.headers || ctx.headers)?.get("user-agent") || null,
+                createdAt: new Date(),
+            },
+        });
+    } catch (error) {
+        context.logger.error("Failed to record Farcaster auth event:", error);
+    }
+}
+
+/**
+ * Record a failed sign-in or link
+ * Errors with code `FID_MISMATCH` are recorded as `fid_mismatch`, whatever `event.type` says
+ * @param ctx - The endpoint context
+ * @param error - The error the endpoint is about to throw
+ * @param event - The event to record, without its outcome and reason
+ */
+export async function recordAuthFailure(
+    ctx: { context: AuthContext; request?: Request; headers?: Headers },
+    error: unknown,
+    event: Omit<FarcasterAuthEventInput, "outcome" | "reason">
+): Promise<void> {
+    const reason = error instanceof APIError
+        ? error.body?.code || error.body?.message || error.status
+        : error instanceof Error ? error.message : "UNKNOWN_ERROR";
+
+    await recordAuthEvent(ctx, {
+        ...event,
+        type: reason === "FID_MISMATCH" ? "fid_mismatch" : event.type,
+        outcome: "failure",
+        reason: String(reason),
+    });
+}
+
+/**
+ * Wrap `auth.handler` to record rate-limited Farcaster requests in the audit log
+ * Better Auth answers rate-limited requests before any plugin runs, so the plugins can't see them
+ * @param auth - Your Better Auth instance
+ *
+ * @example
+ * ```ts
+ * import { withFarcasterRateLimitAudit } from "better-auth-farcaster-plugin";
+ *
+ * const handler = withFarcasterRateLimitAudit(auth);
+ * export { handler as GET, handler as POST };
+ * ```
+ */
+export function withFarcasterRateLimitAudit(auth: {
+    handler: (request: Request) => Promise<Response>;
+    $context: Promise<AuthContext>;
+}): (request: Request) => Promise<Response> {
+    return async (request) => {
+        const response = await auth.handler(request);
+        if (response.status !== 429) {
+            return response;
+        }
+
+        const { pathname } = new URL(request.url);
+        const flow: FarcasterAuthFlow | null = pathname.includes("/farcaster-miniapp/")
+            ? "miniapp"
+            : pathname.includes("/farcaster/") ? "siwf" : null;
+        if (flow) {
+            await recordAuthEvent({ context: await auth.$context, request }, {
+                type: "rate_limited",
+                outcome: "failure",
+                flow,
+                reason: pathname,
+            });
+        }
+        return response;
+    };
+}
+
+/**
+ * Whether a user may query the audit log when `canQuery` isn't set:
+ * users with the "admin" role of Better Auth's admin plugin
+ */
+function isAdmin(user: FarcasterUser): boolean {
+    const role = (user as FarcasterUser & { role?: unknown }).role;
+    return typeof role === "string" && role.split(",").map((r) => r.trim()).includes("admin");
+}
+
+const auditEventsQuerySchema = z.object({
+    fid: z.coerce.number().int().positive().optional(),
+    userId: z.string().optional(),
+    type: z.enum(["sign_in", "sign_up", "link", "unlink", "verification_failed", "fid_mismatch", "rate_limited"]).optional(),
+    flow: z.enum(["miniapp", "siwf"]).optional(),
+    outcome: z.enum(["success", "failure"]).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    limit: z.coerce.number().int().min(1).max(MAX_QUERY_LIMIT).optional(),
+    offset: z.coerce.number().int().min(0).optional(),
+}).optional();
+
+/**
+ * Create the endpoint that lists audit log entries, newest first
+ * @param path - Endpoint path (e.g., "/farcaster/audit-events")
+ * @param shared - Shared plugin options
+ */
+export function createAuditEventsEndpoint<Path extends string>(path: Path, shared: FarcasterShared) {
+    return createAuthEndpoint(
+        path,
+        {
+            method: "GET",
+            query: auditEventsQuerySchema,
+            use: [sessionMiddleware],
+            metadata: {
+                openapi: {
+                    summary: "List Farcaster auth events",
+                    description: "List Farcaster authentication events from the audit log, with pagination and filters",
+                    tags: ["Farcaster"],
+                },
+            },
+        },
+        async (ctx) => {
+            const user = ctx.context.session.user as FarcasterUser;
+            const canQuery = shared.auditLog?.canQuery || isAdmin;
+
+            if (!await canQuery(user)) {
+                throw new APIError("FORBIDDEN", {
+                    message: "Not allowed to query the audit log",
+                    code: "AUDIT_LOG_FORBIDDEN",
+                });
+            }
+
+            const { from, to, limit = 50, offset = 0, ...filters } = ctx.query || {};
+            const where: Where[] = [];
+            for (const [field, value] of Object.entries(filters)) {
+                if (value !== undefined) where.push({ field, value });
+            }
+            if (from) where.push({ field: "createdAt", operator: "gte", value: from });
+            if (to) where.push({ field: "createdAt", operator: "lte", value: to });
+
+            const [events, total] = await Promise.all([
+                ctx.context.adapter.findMany<FarcasterAuthEvent>({
+                    model: AUDIT_MODEL,
+                    where,
+                    limit,
+                    offset,
+                    sortBy: { field: "createdAt", direction: "desc" },
+                }),
+                ctx.context.adapter.count({ model: AUDIT_MODEL, where }),
+            ]);
+
+            const response: FarcasterAuthEventsResponse = { events, total, limit, offset };
+            return ctx.json(response);
+        }
+    );
+}
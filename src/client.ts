@@ -1,17 +1,92 @@
 // Client-side only exports (safe for browser bundling)
-// This entry point re-exports miniapp client for backward compatibility
+import type { BetterAuthClientOptions, BetterAuthClientPlugin } from "better-auth/client";
+import type { FarcasterAuthPlugin } from "./server";
+import type { FarcasterSIWFOptions } from "./core/types";
+import {
+    createBearerTokenFetchPlugin,
+    createFarcasterMiniappActions,
+    farcasterMiniappPathMethods,
+    resolveTokenStorage,
+    type FarcasterMiniappActions,
+    type FarcasterMiniappClientOptions,
+} from './miniapp/client';
+import {
+    createFarcasterCoreActions,
+    farcasterCorePathMethods,
+    type FarcasterCoreActions,
+} from './core/client';
 
-// Re-export miniapp client plugin for backward compatibility
-export { farcasterMiniappClient as farcasterAuthClient, farcasterMiniappClient, getFarcasterMiniapp } from './miniapp/client';
+/**
+ * Combined Farcaster client plugin for Better Auth
+ * Matches the combined `farcasterAuth` server plugin and exposes both flows:
+ * - `authClient.farcasterMiniapp.*` - Miniapp (Quick Auth) actions
+ * - `authClient.farcaster.*` - SIWF actions
+ *
+ * Works with both the Miniapp and Core React hooks.
+ * Takes the same `bearerToken` option as `farcasterMiniappClient`.
+ *
+ * @example
+ * ```ts
+ * import { createAuthClient } from "better-auth/react";
+ * import { farcasterAuthClient } from "better-auth-farcaster-plugin/client";
+ *
+ * export const authClient = createAuthClient({
+ *   baseURL: "http://localhost:3000",
+ *   plugins: [farcasterAuthClient()],
+ * });
+ *
+ * await authClient.farcasterMiniapp.signIn({ token });
+ * const { data: channel } = await authClient.farcaster.createChannel();
+ * ```
+ */
+export const farcasterAuthClient = (clientOptions?: FarcasterMiniappClientOptions) => {
+    const tokenStorage = resolveTokenStorage(clientOptions);
 
-// Re-export action types - FarcasterAuthClient is an alias for backward compatibility
-export type { FarcasterMiniappActions, FarcasterMiniappActions as FarcasterAuthClient } from './miniapp/client';
+    return {
+        id: "farcaster",
+        getActions: (_$fetch: any, _$store: any, options: BetterAuthClientOptions | undefined) => ({
+            farcaster: createFarcasterCoreActions(options),
+            farcasterMiniapp: createFarcasterMiniappActions(tokenStorage),
+        }),
+        // Typed as the server plugin with both flows enabled
+        $InferServerPlugin: {} as FarcasterAuthPlugin<{ domain: string; miniapp: true; siwf: FarcasterSIWFOptions }>,
+        pathMethods: {
+            ...farcasterMiniappPathMethods,
+            ...farcasterCorePathMethods,
+        },
+        fetchPlugins: tokenStorage ? [createBearerTokenFetchPlugin(tokenStorage)] : [],
+    } satisfies BetterAuthClientPlugin;
+};
+
+/**
+ * Actions added to the auth client by `farcasterAuthClient`
+ */
+export interface FarcasterAuthActions {
+    farcaster: FarcasterCoreActions;
+    farcasterMiniapp: FarcasterMiniappActions;
+}
+
+// Re-export the individual client plugins
+// FarcasterAuthClient is the miniapp actions type, kept for backward compatibility
+export { farcasterMiniappClient, getFarcasterMiniapp } from './miniapp/client';
+export type {
+    FarcasterMiniappActions,
+    FarcasterMiniappActions as FarcasterAuthClient,
+    FarcasterMiniappClientOptions,
+    FarcasterTokenStorage,
+} from './miniapp/client';
+export { farcasterCoreClient, getFarcasterCore } from './core/client';
+export type { FarcasterCoreActions } from './core/client';
 
 // Re-export types
 export type {
     FarcasterUser,
     FarcasterSignInResponse,
+    FarcasterSessionResponse,
     FarcasterProfileResponse,
+    FarcasterProfile,
+    FarcasterProfileData,
     FarcasterLinkResponse,
+    FarcasterAttachEmailResponse,
+    FarcasterRedirectResponse,
 } from './types';
-
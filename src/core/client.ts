@@ -1,67 +1,43 @@
-import type { BetterAuthClientPlugin } from "better-auth/client";
-import type {
-    FarcasterUser,
-    FarcasterProfileResponse,
-    FarcasterLinkResponse,
-} from "../types";
-import type {
-    SIWFChannelResponse,
-    SIWFVerifyResponse,
-} from "./types";
+import type { BetterAuthClientOptions, BetterAuthClientPlugin, InferRoutes } from "better-auth/client";
+import type { farcasterCoreAuth } from "./server";
+
+/**
+ * Actions of the Core client that don't call an endpoint
+ */
+export interface FarcasterCoreClientActions {
+    /**
+     * Get the URL of the Server-Sent Events stream for a channel's status
+     * @param data - Object containing the channel token
+     * @returns Absolute URL to open with `EventSource`
+     */
+    channelEventsUrl: (data: { channelToken: string }) => string;
+}
 
 /**
  * Type for Farcaster Core (SIWF) client actions
- * Use this type for proper autocomplete when Better Auth's automatic
- * type inference doesn't work with external plugins.
+ * The endpoint methods are inferred from `farcasterCoreAuth`, with their exact request and response types.
  * 
  * @example
  * ```ts
  * import { createAuthClient } from "better-auth/react";
- * import { farcasterCoreClient, type FarcasterCoreActions } from "better-auth-farcaster-plugin/core/client";
+ * import { farcasterCoreClient } from "better-auth-farcaster-plugin/core/client";
  * 
- * const client = createAuthClient({
+ * export const authClient = createAuthClient({
  *   baseURL: "http://localhost:3000",
  *   plugins: [farcasterCoreClient()],
  * });
  * 
- * // Export with proper types
- * export const authClient = client as typeof client & { farcaster: FarcasterCoreActions };
- * 
  * // Now you have proper autocomplete!
  * const { data: channel } = await authClient.farcaster.createChannel();
  * ```
  */
-export interface FarcasterCoreActions {
-    createChannel: (data?: {
-        nonce?: string;
-        notBefore?: string;
-        expirationTime?: string;
-        requestId?: string;
-    }) => Promise<{ data: SIWFChannelResponse | null; error: any }>;
-    channelStatus: (data: { channelToken: string }) => Promise<{ data: any; error: any }>;
-    verifySignature: (data: {
-        channelToken: string;
-        message: string;
-        signature: string;
-        fid: number;
-        username?: string;
-        displayName?: string;
-        pfpUrl?: string;
-        bio?: string;
-    }) => Promise<{ data: SIWFVerifyResponse | null; error: any }>;
-    link: (data: {
-        channelToken: string;
-        message: string;
-        signature: string;
-        fid: number;
-    }) => Promise<{ data: FarcasterLinkResponse | null; error: any }>;
-    unlink: () => Promise<{ data: FarcasterLinkResponse | null; error: any }>;
-    profile: () => Promise<{ data: FarcasterProfileResponse | null; error: any }>;
-}
+export type FarcasterCoreActions =
+    InferRoutes<ReturnType<typeof farcasterCoreAuth>["endpoints"], BetterAuthClientOptions>["farcaster"]
+    & FarcasterCoreClientActions;
 
 /**
  * Helper function to get typed Farcaster Core actions from any authClient.
- * Use this to get proper autocomplete when Better Auth's type inference fails.
+ * Use it where the auth client isn't typed, e.g. passed around as `any`.
  * 
  * @param authClient - Your Better Auth client instance (typed as any)
  * @returns Typed FarcasterCoreActions object
@@ -88,16 +64,42 @@ export function getFarcasterCore(authClient: any): FarcasterCoreActions {
     return authClient.farcaster as FarcasterCoreActions;
 }
 
+/**
+ * Create the Farcaster Core (SIWF) client actions that don't call an endpoint
+ * The endpoint methods come from Better Auth's path proxy, typed through `$InferServerPlugin`.
+ * Used by the plugin's own client and the combined `farcasterAuthClient`
+ */
+export function createFarcasterCoreActions(options?: BetterAuthClientOptions): FarcasterCoreClientActions {
+    return {
+        channelEventsUrl: (data: { channelToken: string }) => {
+            const query = new URLSearchParams({ channelToken: data.channelToken });
+            return `${resolveBaseURL(options)}/farcaster/channel-events?${query.toString()}`;
+        },
+    };
+}
+
+/**
+ * HTTP methods of the Farcaster Core (SIWF) endpoints, for Better Auth's path proxy
+ */
+export const farcasterCorePathMethods = {
+    "/farcaster/create-channel": "POST",
+    "/farcaster/channel-status": "POST",
+    "/farcaster/verify-signature": "POST",
+    "/farcaster/link": "POST",
+    "/farcaster/unlink": "POST",
+    "/farcaster/attach-email": "POST",
+} as const;
+
 /**
  * Farcaster Core authentication client plugin for Better Auth
  * 
- * Note: Better Auth's automatic type inference ($InferServerPlugin) does not work
- * reliably with external npm packages. Use the FarcasterCoreActions type or
- * getFarcasterCore() helper for proper TypeScript autocomplete.
+ * The client infers each method's request and response types from `farcasterCoreAuth`,
+ * so `authClient.farcaster.*` is typed without a cast.
  * 
  * Methods available on the client:
  * - `authClient.farcaster.createChannel()` - Create a SIWF channel (returns URL for QR/deeplink)
  * - `authClient.farcaster.channelStatus({ channelToken })` - Poll channel status
+ * - `authClient.farcaster.channelEventsUrl({ channelToken })` - URL of the channel status event stream (for `EventSource`)
  * - `authClient.farcaster.verifySignature({ ... })` - Verify SIWF signature and create session
  * - `authClient.farcaster.link({ ... })` - Link Farcaster to existing account via SIWF
  * - `authClient.farcaster.unlink()` - Unlink Farcaster from account
@@ -106,16 +108,13 @@ export function getFarcasterCore(authClient: any): FarcasterCoreActions {
  * @example
  * ```ts
  * import { createAuthClient } from "better-auth/react";
- * import { farcasterCoreClient, type FarcasterCoreActions } from "better-auth-farcaster-plugin/core/client";
+ * import { farcasterCoreClient } from "better-auth-farcaster-plugin/core/client";
  * 
- * const client = createAuthClient({
+ * export const authClient = createAuthClient({
  *   baseURL: "http://localhost:3000",
  *   plugins: [farcasterCoreClient()],
  * });
  * 
- * // Export with proper types
- * export const authClient = client as typeof client & { farcaster: FarcasterCoreActions };
- * 
  * // Create a channel for QR code
  * const { data: channel } = await authClient.farcaster.createChannel();
  * console.log("QR Code URL:", channel.url);
@@ -139,111 +138,53 @@ export function getFarcasterCore(authClient: any): FarcasterCoreActions {
 export const farcasterCoreClient = () => {
     return {
         id: "farcaster",
-        getActions: ($fetch: any): FarcasterCoreActions => ({
-            /**
-             * Create a SIWF channel for QR code or deeplink authentication
-             * @param data - Optional parameters for the channel
-             * @returns Channel token, URL for QR/deeplink, and nonce
-             */
-            createChannel: async (data?: {
-                nonce?: string;
-                notBefore?: string;
-                expirationTime?: string;
-                requestId?: string;
-            }) => {
-                return $fetch("/farcaster/create-channel", {
-                    method: "POST",
-                    body: data || {},
-                });
-            },
-            /**
-             * Get the status of a SIWF channel (for polling)
-             * @param data - Object containing the channel token
-             * @returns Current channel status and signature data if completed
-             */
-            channelStatus: async (data: { channelToken: string }) => {
-                return $fetch("/farcaster/channel-status", {
-                    method: "POST",
-                    body: data,
-                });
-            },
-            /**
-             * Verify a SIWF signature and create a session
-             * @param data - Signature verification parameters
-             * @returns Success status, user, and session
-             */
-            verifySignature: async (data: {
-                channelToken: string;
-                message: string;
-                signature: string;
-                fid: number;
-                username?: string;
-                displayName?: string;
-                pfpUrl?: string;
-                bio?: string;
-            }) => {
-                return $fetch("/farcaster/verify-signature", {
-                    method: "POST",
-                    body: data,
-                });
-            },
-            /**
-             * Link Farcaster account to the currently authenticated user via SIWF
-             * @param data - Link parameters with signature data
-             * @returns Success status and updated user
-             */
-            link: async (data: {
-                channelToken: string;
-                message: string;
-                signature: string;
-                fid: number;
-            }) => {
-                return $fetch("/farcaster/link", {
-                    method: "POST",
-                    body: data,
-                });
-            },
-            /**
-             * Unlink Farcaster account from the currently authenticated user
-             * @returns Success status and updated user
-             */
-            unlink: async () => {
-                return $fetch("/farcaster/unlink", {
-                    method: "POST",
-                    body: {},
-                });
-            },
-            /**
-             * Get Farcaster profile for the currently authenticated user
-             * @returns Farcaster FID and user data
-             */
-            profile: async () => {
-                return $fetch("/farcaster/profile", {
-                    method: "GET",
-                });
-            },
+        getActions: (_$fetch: any, _$store: any, options: BetterAuthClientOptions | undefined) => ({
+            farcaster: createFarcasterCoreActions(options),
         }),
-        pathMethods: {
-            "/farcaster/create-channel": "POST",
-            "/farcaster/channel-status": "POST",
-            "/farcaster/verify-signature": "POST",
-            "/farcaster/link": "POST",
-            "/farcaster/unlink": "POST",
-        },
+        $InferServerPlugin: {} as ReturnType<typeof farcasterCoreAuth>,
+        pathMethods: farcasterCorePathMethods,
     } satisfies BetterAuthClientPlugin;
 };
 
+/**
+ * Resolve the auth server URL the same way the Better Auth client does:
+ * `baseURL` as-is when it has a path, otherwise `baseURL` (or the current origin) plus `basePath`
+ */
+function resolveBaseURL(options?: { baseURL?: string; basePath?: string }): string {
+    const basePath = options?.basePath || "/api/auth";
+    const baseURL = options?.baseURL || (typeof window !== "undefined" ? window.location.origin : "");
+    const trimmed = baseURL.replace(/\/+$/, "");
+
+    try {
+        const { pathname } = new URL(trimmed);
+        if (pathname && pathname !== "/") {
+            return trimmed;
+        }
+    } catch {
+        // Relative or empty baseURL - fall through to basePath
+    }
+
+    return `${trimmed}${basePath}`;
+}
+
 // Re-export types for convenience
 export type {
     FarcasterUser,
     FarcasterSignInResponse,
+    FarcasterSessionResponse,
     FarcasterProfileResponse,
+    FarcasterProfile,
+    FarcasterProfileData,
     FarcasterLinkResponse,
+    FarcasterAttachEmailResponse,
+    FarcasterRedirectResponse,
 } from "../types";
 
 export type {
     FarcasterCorePluginOptions,
     SIWFChannelResponse,
+    SIWFChannelStatusResponse,
     SIWFVerifyParams,
     SIWFVerifyResponse,
+    SIWFVerifySessionResponse,
 } from "./types";
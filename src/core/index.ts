@@ -2,8 +2,14 @@
 export { farcasterCoreAuth, getFarcasterCoreApi } from './server';
 export type {
     FarcasterCorePluginOptions,
+    FarcasterSIWFOptions,
+    EmbeddedRelayOptions,
+    SIWFMessagePolicy,
+    SIWFMessagePolicyErrorCode,
     SIWFChannelResponse,
+    SIWFChannelStatusResponse,
     SIWFVerifyResponse,
+    SIWFVerifySessionResponse,
     FarcasterCoreServerActions,
     WithFarcasterCore,
 } from './server';
@@ -15,11 +21,57 @@ export type { FarcasterCoreActions } from './client';
 // Type alias for intersection pattern (same as FarcasterCoreActions)
 export type { FarcasterCoreActions as FarcasterCoreClient } from './client';
 
+// Account table and user ID maintenance
+export { repairFarcasterAccounts } from '../accounts';
+export type { RepairFarcasterAccountsOptions, RepairFarcasterAccountsResult } from '../accounts';
+export { migrateLegacyUserIds } from '../users';
+export type { MigrateLegacyUserIdsOptions, MigrateLegacyUserIdsResult } from '../users';
+
+// Access policy rules
+export { requireMinFidAge, requireMinFollowers, requireChannelMember } from '../access';
+
+// Audit log
+export { withFarcasterRateLimitAudit } from '../audit';
+
+// Webhook signature verification for receivers
+export { verifyFarcasterWebhook } from '../webhooks';
+
+// Domain allowlist callback type
+export type { ResolveDomainFn } from '../domain';
+
 // Re-export shared types
 export type {
     FarcasterUser,
     FarcasterSignInResponse,
+    FarcasterSessionResponse,
     FarcasterProfileResponse,
     FarcasterLinkResponse,
+    FarcasterAttachEmailResponse,
+    FarcasterRedirectResponse,
+    FarcasterProfile,
+    FarcasterProfileData,
+    FarcasterProfileField,
+    FarcasterProfileSyncOptions,
+    FarcasterProfileSyncPolicy,
+    FarcasterLaunchContext,
+    FarcasterEmailStrategy,
+    FarcasterHooks,
+    FarcasterHookContext,
+    FarcasterBeforeSignInContext,
+    FarcasterBeforeSignInResult,
+    FarcasterAccessPolicy,
+    FarcasterAccessRule,
+    FarcasterAccessContext,
+    FarcasterAccessDecision,
+    FarcasterAuditLogOptions,
+    FarcasterAuthEvent,
+    FarcasterAuthEventType,
+    FarcasterAuthEventsResponse,
+    FarcasterWebhookOptions,
+    FarcasterWebhookEndpoint,
+    FarcasterWebhookEvent,
+    FarcasterWebhookEventType,
+    FarcasterAuthFlow,
+    GenerateUserIdFn,
 } from '../types';
 
@@ -0,0 +1,117 @@
+/**
+ * SIWE message policy checks for Sign In With Farcaster
+ * Enforces the fields that signature verification alone does not cover
+ */
+import { APIError } from "better-auth/api";
+import { getAuthority } from "../domain";
+import type { SIWFMessagePolicy, SIWFMessagePolicyErrorCode } from "./types";
+
+/**
+ * The SIWE fields checked by the message policy
+ */
+interface ParsedSiweMessage {
+    uri?: string;
+    chainId?: number;
+    issuedAt?: Date;
+    expirationTime?: Date;
+    notBefore?: Date;
+    resources: string[];
+}
+
+/**
+ * Parse the policy-relevant fields out of an EIP-4361 message
+ */
+function parseSiweMessage(message: string): ParsedSiweMessage {
+    const field = (name: string) => message.match(new RegExp(`^${name}: (.+)$`, "m"))?.[1].trim();
+    const date = (name: string) => {
+        const value = field(name);
+        return value ? new Date(value) : undefined;
+    };
+    const chainId = field("Chain ID");
+    const resourcesBlock = message.split(/^Resources:\s*$/m)[1];
+
+    return {
+        uri: field("URI"),
+        chainId: chainId ? Number(chainId) : undefined,
+        issuedAt: date("Issued At"),
+        expirationTime: date("Expiration Time"),
+        notBefore: date("Not Before"),
+        resources: resourcesBlock
+            ? resourcesBlock.split("\n").map((line) => line.replace(/^- /, "").trim()).filter(Boolean)
+            : [],
+    };
+}
+
+function reject(code: SIWFMessagePolicyErrorCode, message: string): never {
+    throw new APIError("UNAUTHORIZED", { message, code });
+}
+
+const isInvalidDate = (date?: Date) => !!date && Number.isNaN(date.getTime());
+
+/**
+ * Check a signed SIWF message against the plugin's message policy
+ * Throws an UNAUTHORIZED APIError with a `MESSAGE_*` code on the first failing check
+ * @param params.siweUri - The URI the message must carry
+ * @param params.domain - Without `siweUri`, the message URI's host must be this domain instead
+ */
+export function checkMessagePolicy(
+    message: string,
+    params: { fid: number; siweUri?: string; domain?: string; policy?: SIWFMessagePolicy }
+): void {
+    const {
+        checkUri = true,
+        maxAge = 600,
+        clockSkew = 60,
+        requireExpirationTime = false,
+        allowedChainIds = [10],
+        requireFidResource = true,
+    } = params.policy || {};
+
+    const parsed = parseSiweMessage(message);
+    const now = Date.now();
+    const skewMs = clockSkew * 1000;
+
+    if (!parsed.issuedAt || [parsed.issuedAt, parsed.expirationTime, parsed.notBefore].some(isInvalidDate)) {
+        reject("MESSAGE_MALFORMED", "Message is missing or has invalid timestamps");
+    }
+
+    const uriMatches = params.siweUri !== undefined
+        ? parsed.uri === params.siweUri
+        : !!parsed.uri && getAuthority(parsed.uri) === params.domain;
+    if (checkUri && !uriMatches) {
+        reject("MESSAGE_URI_MISMATCH", "Message URI does not match");
+    }
+
+    if (parsed.issuedAt.getTime() > now + skewMs) {
+        reject("MESSAGE_ISSUED_IN_FUTURE", "Message was issued in the future");
+    }
+
+    if (maxAge > 0 && parsed.issuedAt.getTime() < now - maxAge * 1000 - skewMs) {
+        reject("MESSAGE_TOO_OLD", "Message is too old");
+    }
+
+    if (!parsed.expirationTime && requireExpirationTime) {
+        reject("MESSAGE_EXPIRATION_REQUIRED", "Message has no expiration time");
+    }
+
+    if (parsed.expirationTime && parsed.expirationTime.getTime() < now - skewMs) {
+        reject("MESSAGE_EXPIRED", "Message has expired");
+    }
+
+    if (parsed.notBefore && parsed.notBefore.getTime() > now + skewMs) {
+        reject("MESSAGE_NOT_YET_VALID", "Message is not yet valid");
+    }
+
+    if (allowedChainIds.length > 0 && (parsed.chainId === undefined || !allowedChainIds.includes(parsed.chainId))) {
+        reject("MESSAGE_CHAIN_ID_NOT_ALLOWED", "Message chain ID is not allowed");
+    }
+
+    if (requireFidResource && !parsed.resources.some((resource) => isFidResource(resource, params.fid))) {
+        reject("MESSAGE_FID_RESOURCE_MISMATCH", "Message does not contain the FID resource");
+    }
+}
+
+function isFidResource(resource: string, fid: number): boolean {
+    const match = resource.match(/^farcaster:\/\/fid\/([1-9]\d*)\/?$/);
+    return !!match && Number(match[1]) === fid;
+}
@@ -11,6 +11,10 @@ export type FarcasterCoreAuthErrorCode =
     | 'POLLING_FAILED'
     | 'CLIENT_NOT_AVAILABLE'
     | 'FID_MISMATCH'
+    | 'INVALID_NONCE'
+    | 'MESSAGE_REJECTED'
+    | 'LAST_SIGN_IN_METHOD'
+    | 'ACCESS_DENIED'
     | 'UNKNOWN';
 
 /**
@@ -28,15 +32,22 @@ export class FarcasterCoreAuthError extends Error {
      */
     readonly cause?: Error;
 
+    /**
+     * Why the server refused access, for `ACCESS_DENIED` errors (e.g. `FID_NOT_ALLOWED`)
+     */
+    readonly reason?: string;
+
     constructor(
         message: string,
         code: FarcasterCoreAuthErrorCode = 'UNKNOWN',
-        cause?: Error
+        cause?: Error,
+        reason?: string
     ) {
         super(message);
         this.name = 'FarcasterCoreAuthError';
         this.code = code;
         this.cause = cause;
+        this.reason = reason;
 
         // Maintains proper stack trace for where our error was thrown (only in V8)
         if (Error.captureStackTrace) {
@@ -56,4 +67,31 @@ export class FarcasterCoreAuthError extends Error {
         }
         return new FarcasterCoreAuthError(String(err), code);
     }
+
+    /**
+     * Create an error from a Better Auth client error response
+     * Maps the server's error code, status and message to a FarcasterCoreAuthErrorCode
+     */
+    static fromResponse(
+        error: { message?: string; code?: string; status?: number; reason?: string },
+        fallbackMessage: string,
+        fallbackCode: FarcasterCoreAuthErrorCode = 'UNKNOWN'
+    ): FarcasterCoreAuthError {
+        const message = error.message || fallbackMessage;
+        let code = fallbackCode;
+        if (error.status === 429) {
+            code = 'RATE_LIMITED';
+        } else if (error.code === 'ACCESS_DENIED') {
+            return new FarcasterCoreAuthError(message, 'ACCESS_DENIED', undefined, error.reason);
+        } else if (error.code === 'LAST_SIGN_IN_METHOD') {
+            code = 'LAST_SIGN_IN_METHOD';
+        } else if (error.code === 'FID_MISMATCH') {
+            code = 'FID_MISMATCH';
+        } else if (error.code?.startsWith('MESSAGE_')) {
+            code = 'MESSAGE_REJECTED';
+        } else if (error.code === 'INVALID_NONCE' || error.code === 'NONCE_ALREADY_USED') {
+            code = 'INVALID_NONCE';
+        }
+        return new FarcasterCoreAuthError(message, code);
+    }
 }
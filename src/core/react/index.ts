@@ -40,11 +40,13 @@ export type { FarcasterCoreAuthErrorCode } from "./errors";
 export type {
     FarcasterUser,
     FarcasterSignInResponse,
+    FarcasterSessionResponse,
     FarcasterLinkResponse,
     FarcasterProfileResponse,
 } from "../../types";
 
 export type {
     SIWFChannelResponse,
+    SIWFChannelStatusResponse,
     SIWFVerifyParams,
 } from "../types";
@@ -1,6 +1,7 @@
 import { useState, useCallback, useRef } from "react";
 import type { FarcasterLinkResponse, FarcasterUser } from "../../types";
 import { FarcasterCoreAuthError } from "./errors";
+import type { SIWFChannelStatus } from "./useFarcasterSIWF";
 
 /**
  * Minimal type for Better Auth client with Farcaster Core plugin (link operations)
@@ -12,6 +13,7 @@ export interface BetterAuthClientForCoreLink {
         createChannel: (data?: any) => Promise<any>;
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         channelStatus: (data: { channelToken: string }) => Promise<any>;
+        channelEventsUrl?: (data: { channelToken: string }) => string;
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         link: (data: any) => Promise<any>;
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -37,6 +39,18 @@ export interface UseFarcasterCoreLinkOptions {
      * @default 300000 (5 minutes)
      */
     pollTimeout?: number;
+    /**
+     * Listen to `/farcaster/channel-events` (Server-Sent Events) instead of polling when available.
+     * Falls back to polling otherwise.
+     * @default true
+     */
+    useChannelEvents?: boolean;
+    /**
+     * Must match the server plugin's `verifyMode`.
+     * With `"server"`, only the channel token is sent to the link endpoint.
+     * @default "client"
+     */
+    verifyMode?: 'client' | 'server';
     /**
      * Callback fired when linking succeeds
      */
@@ -111,6 +125,8 @@ export function useFarcasterCoreLink(
         authClient,
         pollInterval = 2000,
         pollTimeout = 300000,
+        verifyMode = 'client',
+        useChannelEvents = true,
         onLinkSuccess,
         onUnlinkSuccess,
         onError,
@@ -124,6 +140,7 @@ export function useFarcasterCoreLink(
     const [channelUrl, setChannelUrl] = useState<string | null>(null);
 
     const pollingRef = useRef<NodeJS.Timeout | null>(null);
+    const eventSourceRef = useRef<EventSource | null>(null);
     const pollStartTime = useRef<number | null>(null);
     const cancelledRef = useRef(false);
     const authClientRef = useRef(authClient);
@@ -141,6 +158,10 @@ export function useFarcasterCoreLink(
             clearInterval(pollingRef.current);
             pollingRef.current = null;
         }
+        if (eventSourceRef.current) {
+            eventSourceRef.current.close();
+            eventSourceRef.current = null;
+        }
         pollStartTime.current = null;
         setIsPolling(false);
     }, []);
@@ -183,76 +204,122 @@ export function useFarcasterCoreLink(
             const channelData = channelResponse.data;
             setChannelUrl(channelData.url);
 
-            // Start polling
             setIsPolling(true);
             pollStartTime.current = Date.now();
 
-            pollingRef.current = setInterval(async () => {
-                if (cancelledRef.current) {
-                    stopPolling();
-                    return;
-                }
+            const fail = (failure: FarcasterCoreAuthError) => {
+                stopPolling();
+                setError(failure);
+                onErrorRef.current?.(failure);
+                setChannelUrl(null);
+                setIsLinking(false);
+            };
 
-                if (pollStartTime.current && Date.now() - pollStartTime.current > pollTimeout) {
-                    stopPolling();
-                    const timeoutError = new FarcasterCoreAuthError("Link timed out", 'CHANNEL_TIMEOUT');
-                    setError(timeoutError);
-                    onErrorRef.current?.(timeoutError);
-                    setChannelUrl(null);
-                    setIsLinking(false);
+            // Link the account once the channel is completed
+            const handleStatus = async (status: SIWFChannelStatus) => {
+                if (status.state !== 'completed' || !status.message || !status.signature || !status.fid) {
                     return;
                 }
 
+                stopPolling();
+
                 try {
-                    const statusResponse = await authClientRef.current.farcaster.channelStatus({
-                        channelToken: channelData.channelToken,
-                    });
+                    const linkResponse = await authClientRef.current.farcaster.link(
+                        verifyMode === 'server'
+                            ? { channelToken: channelData.channelToken }
+                            : {
+                                channelToken: channelData.channelToken,
+                                message: status.message,
+                                signature: status.signature,
+                                fid: status.fid,
+                                username: status.username,
+                                displayName: status.displayName,
+                                pfpUrl: status.pfpUrl,
+                                bio: status.bio,
+                                custody: status.custody,
+                                verifications: status.verifications,
+                            }
+                    );
 
-                    if (statusResponse.error) {
-                        return;
+                    if (linkResponse.error) {
+                        throw FarcasterCoreAuthError.fromResponse(linkResponse.error, "Linking failed", 'INVALID_SIGNATURE');
                     }
 
-                    const status = statusResponse.data;
+                    setUser(linkResponse.data.user);
+                    setChannelUrl(null);
+                    setIsLinking(false);
+                    onLinkSuccessRef.current?.(linkResponse.data);
+                } catch (err) {
+                    fail(FarcasterCoreAuthError.from(err, 'POLLING_FAILED'));
+                }
+            };
 
-                    if (status.state === 'completed' && status.message && status.signature && status.fid) {
+            const startPolling = () => {
+                pollingRef.current = setInterval(async () => {
+                    if (cancelledRef.current) {
                         stopPolling();
+                        return;
+                    }
 
-                        // Link the account
-                        const linkResponse = await authClientRef.current.farcaster.link({
+                    if (pollStartTime.current && Date.now() - pollStartTime.current > pollTimeout) {
+                        fail(new FarcasterCoreAuthError("Link timed out", 'CHANNEL_TIMEOUT'));
+                        return;
+                    }
+
+                    try {
+                        const statusResponse = await authClientRef.current.farcaster.channelStatus({
                             channelToken: channelData.channelToken,
-                            message: status.message,
-                            signature: status.signature,
-                            fid: status.fid,
                         });
 
-                        if (linkResponse.error) {
-                            throw new FarcasterCoreAuthError(
-                                linkResponse.error.message || "Linking failed",
-                                'INVALID_SIGNATURE'
-                            );
+                        if (statusResponse.error) {
+                            return;
                         }
 
-                        setUser(linkResponse.data.user);
-                        setChannelUrl(null);
-                        setIsLinking(false);
-                        onLinkSuccessRef.current?.(linkResponse.data);
+                        await handleStatus(statusResponse.data);
+                    } catch (err) {
+                        fail(FarcasterCoreAuthError.from(err, 'POLLING_FAILED'));
                     }
-                } catch (err) {
-                    stopPolling();
-                    const pollingError = FarcasterCoreAuthError.from(err, 'POLLING_FAILED');
-                    setError(pollingError);
-                    onErrorRef.current?.(pollingError);
-                    setChannelUrl(null);
-                    setIsLinking(false);
-                }
-            }, pollInterval);
+                }, pollInterval);
+            };
+
+            // Prefer the server's event stream; fall back to polling when it isn't available
+            const eventsUrl = useChannelEvents && typeof EventSource !== 'undefined'
+                ? authClientRef.current.farcaster.channelEventsUrl?.({ channelToken: channelData.channelToken })
+                : undefined;
+
+            if (eventsUrl) {
+                const source = new EventSource(eventsUrl, { withCredentials: true });
+                eventSourceRef.current = source;
+
+                source.addEventListener('completed', (event) => {
+                    handleStatus(JSON.parse((event as MessageEvent).data));
+                });
+                source.addEventListener('expired', () => {
+                    fail(new FarcasterCoreAuthError("Channel expired", 'CHANNEL_EXPIRED'));
+                });
+                source.addEventListener('timeout', () => {
+                    fail(new FarcasterCoreAuthError("Link timed out", 'CHANNEL_TIMEOUT'));
+                });
+                source.addEventListener('failed', () => {
+                    fail(new FarcasterCoreAuthError("Failed to get channel status", 'POLLING_FAILED'));
+                });
+                source.onerror = () => {
+                    // Stream missing or dropped - continue with polling
+                    if (eventSourceRef.current !== source) return;
+                    source.close();
+                    eventSourceRef.current = null;
+                    if (!cancelledRef.current) startPolling();
+                };
+            } else {
+                startPolling();
+            }
         } catch (err) {
             const error = FarcasterCoreAuthError.from(err);
             setError(error);
             onErrorRef.current?.(error);
             setIsLinking(false);
         }
-    }, [pollInterval, pollTimeout, stopPolling]);
+    }, [pollInterval, pollTimeout, verifyMode, useChannelEvents, stopPolling]);
 
     const unlink = useCallback(async () => {
         setIsUnlinking(true);
@@ -262,7 +329,7 @@ export function useFarcasterCoreLink(
             const response = await authClientRef.current.farcaster.unlink();
 
             if (response.error) {
-                throw new FarcasterCoreAuthError(response.error.message || "Unlinking failed", 'UNKNOWN');
+                throw FarcasterCoreAuthError.fromResponse(response.error, "Unlinking failed");
             }
 
             setUser(response.data.user);
@@ -1,7 +1,7 @@
 import { useState, useCallback, useEffect, useRef } from "react";
 import type { Session } from "better-auth";
-import type { FarcasterSignInResponse, FarcasterUser } from "../../types";
-import type { SIWFChannelResponse } from "../types";
+import type { FarcasterSessionResponse, FarcasterUser } from "../../types";
+import type { SIWFChannelResponse, SIWFChannelStatusResponse } from "../types";
 import { FarcasterCoreAuthError } from "./errors";
 
 /**
@@ -15,17 +15,7 @@ export interface SessionData {
 /**
  * Status from polling the SIWF channel
  */
-export interface SIWFChannelStatus {
-    state: 'pending' | 'completed';
-    nonce: string;
-    message?: string;
-    signature?: `0x${string}`;
-    fid?: number;
-    username?: string;
-    displayName?: string;
-    pfpUrl?: string;
-    bio?: string;
-}
+export type SIWFChannelStatus = SIWFChannelStatusResponse;
 
 /**
  * Minimal type for Better Auth client with Farcaster Core plugin
@@ -37,6 +27,7 @@ export interface BetterAuthClientWithFarcasterCore {
         createChannel: (data?: any) => Promise<any>;
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         channelStatus: (data: { channelToken: string }) => Promise<any>;
+        channelEventsUrl?: (data: { channelToken: string }) => string;
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         verifySignature: (data: any) => Promise<any>;
     };
@@ -69,6 +60,19 @@ export interface UseFarcasterSIWFOptions {
      * @default 300000 (5 minutes)
      */
     pollTimeout?: number;
+    /**
+     * Listen to `/farcaster/channel-events` (Server-Sent Events) instead of polling when
+     * `EventSource` and the client's `channelEventsUrl` are available. Falls back to polling otherwise.
+     * @default true
+     */
+    useChannelEvents?: boolean;
+    /**
+     * Must match the server plugin's `verifyMode`.
+     * With `"server"`, only the channel token is sent to verify-signature and the
+     * server reads the signed message and profile from the relay itself.
+     * @default "client"
+     */
+    verifyMode?: 'client' | 'server';
     /**
      * Callback fired when channel is created
      */
@@ -76,7 +80,7 @@ export interface UseFarcasterSIWFOptions {
     /**
      * Callback fired when sign-in succeeds
      */
-    onSuccess?: (response: FarcasterSignInResponse) => void;
+    onSuccess?: (response: FarcasterSessionResponse) => void;
     /**
      * Callback fired when an existing session is found
      */
@@ -124,7 +128,7 @@ export interface UseFarcasterSIWFReturn {
      */
     isCreatingChannel: boolean;
     /**
-     * Whether polling for completion is in progress
+     * Whether waiting for completion is in progress (event stream or polling)
      */
     isPolling: boolean;
     /**
@@ -174,7 +178,7 @@ export interface UseFarcasterSIWFReturn {
  * 
  * This hook handles the full channel-based OAuth-like flow:
  * 1. Creates a channel and returns a URL for QR code/deeplink
- * 2. Polls the channel for user approval
+ * 2. Waits for user approval via the channel event stream, or by polling when it's unavailable
  * 3. Verifies the signature and creates a session
  * 
  * @example
@@ -234,6 +238,8 @@ export function useFarcasterSIWF(
         autoCheckSession = true,
         pollInterval = 2000,
         pollTimeout = 300000,
+        verifyMode = 'client',
+        useChannelEvents = true,
         onChannelCreated,
         onSuccess,
         onSessionFound,
@@ -257,6 +263,7 @@ export function useFarcasterSIWF(
     const hasCheckedSession = useRef(false);
     const wasAuthenticated = useRef(false);
     const pollingRef = useRef<NodeJS.Timeout | null>(null);
+    const eventSourceRef = useRef<EventSource | null>(null);
     const pollStartTime = useRef<number | null>(null);
     const cancelledRef = useRef(false);
     const authClientRef = useRef(authClient);
@@ -281,12 +288,13 @@ export function useFarcasterSIWF(
         wasAuthenticated.current = user !== null && session !== null;
     }, [user, session]);
 
-    // Cleanup polling on unmount
+    // Cleanup polling and event stream on unmount
     useEffect(() => {
         return () => {
             if (pollingRef.current) {
                 clearInterval(pollingRef.current);
             }
+            eventSourceRef.current?.close();
         };
     }, []);
 
@@ -295,6 +303,10 @@ export function useFarcasterSIWF(
             clearInterval(pollingRef.current);
             pollingRef.current = null;
         }
+        if (eventSourceRef.current) {
+            eventSourceRef.current.close();
+            eventSourceRef.current = null;
+        }
         pollStartTime.current = null;
         setIsPolling(false);
     }, []);
@@ -414,93 +426,134 @@ export function useFarcasterSIWF(
             setChannelToken(channelData.channelToken);
             onChannelCreatedRef.current?.(channelData);
 
-            // Start polling
             setIsPolling(true);
             pollStartTime.current = Date.now();
 
-            pollingRef.current = setInterval(async () => {
-                if (cancelledRef.current) {
-                    stopPolling();
+            const fail = (failure: FarcasterCoreAuthError) => {
+                stopPolling();
+                setError(failure);
+                onErrorRef.current?.(failure);
+                setChannelUrl(null);
+                setChannelToken(null);
+                setIsVerifying(false);
+            };
+
+            // Verify and create the session once the channel is completed
+            const handleStatus = async (status: SIWFChannelStatus) => {
+                if (status.state !== 'completed' || !status.message || !status.signature || !status.fid) {
                     return;
                 }
 
-                // Check timeout
-                if (pollStartTime.current && Date.now() - pollStartTime.current > pollTimeout) {
-                    stopPolling();
-                    const timeoutError = new FarcasterCoreAuthError(
-                        "Sign-in timed out",
-                        'CHANNEL_TIMEOUT'
+                stopPolling();
+                setIsVerifying(true);
+
+                try {
+                    // Verify signature and create session
+                    const verifyResponse = await authClientRef.current.farcaster.verifySignature(
+                        verifyMode === 'server'
+                            ? { channelToken: channelData.channelToken }
+                            : {
+                                channelToken: channelData.channelToken,
+                                message: status.message,
+                                signature: status.signature,
+                                fid: status.fid,
+                                username: status.username,
+                                displayName: status.displayName,
+                                pfpUrl: status.pfpUrl,
+                                bio: status.bio,
+                                custody: status.custody,
+                                verifications: status.verifications,
+                            }
                     );
-                    setError(timeoutError);
-                    onErrorRef.current?.(timeoutError);
+
+                    if (verifyResponse.error) {
+                        throw FarcasterCoreAuthError.fromResponse(verifyResponse.error, "Verification failed", 'INVALID_SIGNATURE');
+                    }
+
+                    // A server `beforeSignIn` hook sent the user elsewhere instead of signing in
+                    if (verifyResponse.data?.redirect && verifyResponse.data.url) {
+                        setChannelUrl(null);
+                        setChannelToken(null);
+                        setIsVerifying(false);
+                        window.location.href = verifyResponse.data.url;
+                        return;
+                    }
+
+                    setUser(verifyResponse.data.user);
+                    setSession(verifyResponse.data.session);
                     setChannelUrl(null);
                     setChannelToken(null);
-                    return;
+                    onSuccessRef.current?.(verifyResponse.data);
+                    setIsVerifying(false);
+                } catch (err) {
+                    fail(FarcasterCoreAuthError.from(err, 'POLLING_FAILED'));
                 }
+            };
 
-                try {
-                    const statusResponse = await authClientRef.current.farcaster.channelStatus({
-                        channelToken: channelData.channelToken,
-                    });
-
-                    if (statusResponse.error) {
-                        // Channel might have expired
-                        if (statusResponse.error.message?.includes('expired')) {
-                            stopPolling();
-                            const expiredError = new FarcasterCoreAuthError(
-                                "Channel expired",
-                                'CHANNEL_EXPIRED'
-                            );
-                            setError(expiredError);
-                            onErrorRef.current?.(expiredError);
-                            setChannelUrl(null);
-                            setChannelToken(null);
-                        }
+            const startPolling = () => {
+                pollingRef.current = setInterval(async () => {
+                    if (cancelledRef.current) {
+                        stopPolling();
                         return;
                     }
 
-                    const status: SIWFChannelStatus = statusResponse.data;
-
-                    if (status.state === 'completed' && status.message && status.signature && status.fid) {
-                        stopPolling();
-                        setIsVerifying(true);
+                    // Check timeout
+                    if (pollStartTime.current && Date.now() - pollStartTime.current > pollTimeout) {
+                        fail(new FarcasterCoreAuthError("Sign-in timed out", 'CHANNEL_TIMEOUT'));
+                        return;
+                    }
 
-                        // Verify signature and create session
-                        const verifyResponse = await authClientRef.current.farcaster.verifySignature({
+                    try {
+                        const statusResponse = await authClientRef.current.farcaster.channelStatus({
                             channelToken: channelData.channelToken,
-                            message: status.message,
-                            signature: status.signature,
-                            fid: status.fid,
-                            username: status.username,
-                            displayName: status.displayName,
-                            pfpUrl: status.pfpUrl,
-                            bio: status.bio,
                         });
 
-                        if (verifyResponse.error) {
-                            throw new FarcasterCoreAuthError(
-                                verifyResponse.error.message || "Verification failed",
-                                'INVALID_SIGNATURE'
-                            );
+                        if (statusResponse.error) {
+                            // Channel might have expired
+                            if (statusResponse.error.message?.includes('expired')) {
+                                fail(new FarcasterCoreAuthError("Channel expired", 'CHANNEL_EXPIRED'));
+                            }
+                            return;
                         }
 
-                        setUser(verifyResponse.data.user);
-                        setSession(verifyResponse.data.session);
-                        setChannelUrl(null);
-                        setChannelToken(null);
-                        onSuccessRef.current?.(verifyResponse.data);
-                        setIsVerifying(false);
+                        await handleStatus(statusResponse.data);
+                    } catch (err) {
+                        fail(FarcasterCoreAuthError.from(err, 'POLLING_FAILED'));
                     }
-                } catch (err) {
-                    stopPolling();
-                    const pollingError = FarcasterCoreAuthError.from(err, 'POLLING_FAILED');
-                    setError(pollingError);
-                    onErrorRef.current?.(pollingError);
-                    setChannelUrl(null);
-                    setChannelToken(null);
-                    setIsVerifying(false);
-                }
-            }, pollInterval);
+                }, pollInterval);
+            };
+
+            // Prefer the server's event stream; fall back to polling when it isn't available
+            const eventsUrl = useChannelEvents && typeof EventSource !== 'undefined'
+                ? authClientRef.current.farcaster.channelEventsUrl?.({ channelToken: channelData.channelToken })
+                : undefined;
+
+            if (eventsUrl) {
+                const source = new EventSource(eventsUrl, { withCredentials: true });
+                eventSourceRef.current = source;
+
+                source.addEventListener('completed', (event) => {
+                    handleStatus(JSON.parse((event as MessageEvent).data));
+                });
+                source.addEventListener('expired', () => {
+                    fail(new FarcasterCoreAuthError("Channel expired", 'CHANNEL_EXPIRED'));
+                });
+                source.addEventListener('timeout', () => {
+                    fail(new FarcasterCoreAuthError("Sign-in timed out", 'CHANNEL_TIMEOUT'));
+                });
+                source.addEventListener('failed', () => {
+                    fail(new FarcasterCoreAuthError("Failed to get channel status", 'POLLING_FAILED'));
+                });
+                source.onerror = () => {
+                    // Stream missing or dropped - continue with polling
+                    if (eventSourceRef.current !== source) return;
+                    source.close();
+                    eventSourceRef.current = null;
+                    if (!cancelledRef.current) startPolling();
+                };
+            } else {
+                startPolling();
+            }
 
             return channelData;
         } catch (err) {
@@ -511,7 +564,7 @@ export function useFarcasterSIWF(
         } finally {
             setIsCreatingChannel(false);
         }
-    }, [user, session, pollInterval, pollTimeout, stopPolling]);
+    }, [user, session, pollInterval, pollTimeout, verifyMode, useChannelEvents, stopPolling]);
 
     const signOut = useCallback(async () => {
         setIsSigningOut(true);
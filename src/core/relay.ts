@@ -0,0 +1,283 @@
+/**
+ * Embedded SIWF relay
+ * Implements the Farcaster Auth relay channel protocol on top of Better Auth storage
+ * (database or secondaryStorage), so the core plugin does not depend on relay.farcaster.xyz
+ */
+import type { AuthContext } from "better-auth";
+import { generateRandomString } from "better-auth/crypto";
+import type { EmbeddedRelayOptions, SIWFChannelStatusResponse } from "./types";
+
+/**
+ * A relay channel as stored by the embedded relay
+ * Mirrors the relay's channel status response
+ */
+export interface RelayChannel {
+    channelToken: string;
+    state: "pending" | "completed";
+    nonce: string;
+    url: string;
+    siweUri: string;
+    domain: string;
+    notBefore?: string;
+    expirationTime?: string;
+    requestId?: string;
+    redirectUrl?: string;
+    message?: string;
+    signature?: `0x${string}`;
+    authMethod?: "custody" | "authAddress";
+    fid?: number;
+    username?: string;
+    bio?: string;
+    displayName?: string;
+    pfpUrl?: string;
+    verifications?: string[];
+    custody?: `0x${string}`;
+    expiresAt: Date;
+}
+
+/**
+ * Parameters for creating a relay channel
+ */
+export interface RelayCreateChannelParams {
+    siweUri: string;
+    domain: string;
+    nonce?: string;
+    notBefore?: string;
+    expirationTime?: string;
+    requestId?: string;
+    redirectUrl?: string;
+}
+
+/**
+ * Data posted by the Farcaster client when the user approves a channel
+ */
+export interface RelayAuthenticateParams {
+    message: string;
+    signature: `0x${string}`;
+    authMethod?: "custody" | "authAddress";
+    fid: number;
+    username?: string;
+    bio?: string;
+    displayName?: string;
+    pfpUrl?: string;
+    verifications?: string[];
+    custody?: `0x${string}`;
+}
+
+/**
+ * Result shape shared with @farcaster/auth-client so the plugin can use either relay
+ */
+type RelayResult<T> =
+    | { isError: false; data: T }
+    | { isError: true; error?: Error };
+
+/**
+ * Minimal relay client used by the core plugin
+ */
+export interface RelayClient {
+    createChannel: (params: RelayCreateChannelParams) => Promise<RelayResult<{ channelToken: string; url: string; nonce: string }>>;
+    status: (params: { channelToken: string }) => Promise<RelayResult<SIWFChannelStatusResponse>>;
+}
+
+const RELAY_CHANNEL_MODEL = "farcasterRelayChannel";
+const STORAGE_KEY_PREFIX = "farcaster-relay:channel:";
+
+// Database representation - verifications are stored as a JSON string
+type RelayChannelRecord = Omit<RelayChannel, "verifications"> & {
+    id: string;
+    verifications?: string | null;
+};
+
+/**
+ * Database schema for the embedded relay's channel table
+ */
+export const relayChannelSchema = {
+    fields: {
+        channelToken: { type: "string", unique: true, required: true },
+        state: { type: "string", required: true },
+        nonce: { type: "string", required: true },
+        url: { type: "string", required: true },
+        siweUri: { type: "string", required: true },
+        domain: { type: "string", required: true },
+        notBefore: { type: "string", required: false },
+        expirationTime: { type: "string", required: false },
+        requestId: { type: "string", required: false },
+        redirectUrl: { type: "string", required: false },
+        message: { type: "string", required: false },
+        signature: { type: "string", required: false },
+        authMethod: { type: "string", required: false },
+        fid: { type: "number", required: false },
+        username: { type: "string", required: false },
+        bio: { type: "string", required: false },
+        displayName: { type: "string", required: false },
+        pfpUrl: { type: "string", required: false },
+        verifications: { type: "string", required: false },
+        custody: { type: "string", required: false },
+        expiresAt: { type: "date", required: true },
+    },
+} as const;
+
+function fromRecord(record: RelayChannelRecord): RelayChannel {
+    const { id: _id, verifications, ...rest } = record;
+    const channel: RelayChannel = { ...rest, expiresAt: new Date(record.expiresAt) };
+    // Adapters return null for empty optional columns
+    for (const key of Object.keys(channel) as (keyof RelayChannel)[]) {
+        if (channel[key] === null) delete channel[key];
+    }
+    if (verifications) channel.verifications = JSON.parse(verifications);
+    return channel;
+}
+
+/**
+ * Storage for relay channels, backed by the database or Better Auth's secondaryStorage
+ */
+function createChannelStore(context: AuthContext, options: EmbeddedRelayOptions) {
+    const storage = options.storage || "database";
+    const ttl = options.channelTtl ?? 300;
+
+    const getSecondaryStorage = () => {
+        if (!context.secondaryStorage) {
+            throw new Error("Embedded relay storage is set to \"secondaryStorage\" but Better Auth has no secondaryStorage configured");
+        }
+        return context.secondaryStorage;
+    };
+
+    return {
+        ttl,
+        async create(channel: RelayChannel): Promise<void> {
+            if (storage === "secondaryStorage") {
+                await getSecondaryStorage().set(STORAGE_KEY_PREFIX + channel.channelToken, JSON.stringify(channel), ttl);
+                return;
+            }
+            // Drop expired channels before storing the new one
+            await context.adapter.deleteMany({
+                model: RELAY_CHANNEL_MODEL,
+                where: [{ field: "expiresAt", operator: "lt", value: new Date() }],
+            });
+            const { verifications, ...rest } = channel;
+            await context.adapter.create({
+                model: RELAY_CHANNEL_MODEL,
+                data: {
+                    ...rest,
+                    verifications: verifications ? JSON.stringify(verifications) : null,
+                },
+            });
+        },
+        async find(channelToken: string): Promise<RelayChannel | null> {
+            let channel: RelayChannel | null = null;
+            if (storage === "secondaryStorage") {
+                const raw = await getSecondaryStorage().get(STORAGE_KEY_PREFIX + channelToken);
+                if (raw) {
+                    const parsed = typeof raw === "string" ? JSON.parse(raw) : raw;
+                    channel = { ...parsed, expiresAt: new Date(parsed.expiresAt) };
+                }
+            } else {
+                const record = await context.adapter.findOne<RelayChannelRecord>({
+                    model: RELAY_CHANNEL_MODEL,
+                    where: [{ field: "channelToken", value: channelToken }],
+                });
+                channel = record ? fromRecord(record) : null;
+            }
+            if (channel && channel.expiresAt.getTime() < Date.now()) {
+                return null;
+            }
+            return channel;
+        },
+        async complete(channel: RelayChannel, params: RelayAuthenticateParams): Promise<RelayChannel> {
+            const completed: RelayChannel = { ...channel, ...params, state: "completed" };
+            if (storage === "secondaryStorage") {
+                const remaining = Math.max(1, Math.ceil((channel.expiresAt.getTime() - Date.now()) / 1000));
+                await getSecondaryStorage().set(STORAGE_KEY_PREFIX + channel.channelToken, JSON.stringify(completed), remaining);
+                return completed;
+            }
+            const { verifications, ...rest } = params;
+            await context.adapter.update({
+                model: RELAY_CHANNEL_MODEL,
+                where: [{ field: "channelToken", value: channel.channelToken }],
+                update: {
+                    ...rest,
+                    verifications: verifications ? JSON.stringify(verifications) : null,
+                    state: "completed",
+                },
+            });
+            return completed;
+        },
+    };
+}
+
+/**
+ * Convert a stored channel into the relay's status response body
+ */
+export function toChannelStatus(channel: RelayChannel): SIWFChannelStatusResponse {
+    const { channelToken: _channelToken, expiresAt: _expiresAt, siweUri, domain, nonce, notBefore, expirationTime, requestId, redirectUrl, ...rest } = channel;
+    return {
+        ...rest,
+        nonce,
+        signatureParams: { siweUri, domain, nonce, notBefore, expirationTime, requestId, redirectUrl },
+    };
+}
+
+/**
+ * Create the embedded relay for a request
+ * @param context - The Better Auth context of the current request
+ * @param options - Embedded relay options from the plugin
+ */
+export function createEmbeddedRelay(context: AuthContext, options: EmbeddedRelayOptions) {
+    const store = createChannelStore(context, options);
+    const { connectUrl } = options;
+
+    const createChannel = async (params: RelayCreateChannelParams): Promise<RelayChannel> => {
+        const channelToken = generateRandomString(32, "a-z", "A-Z", "0-9");
+        const nonce = params.nonce || generateRandomString(16, "a-z", "A-Z", "0-9");
+
+        const query = new URLSearchParams({ channelToken, nonce, siweUri: params.siweUri, domain: params.domain });
+        if (params.notBefore) query.set("notBefore", params.notBefore);
+        if (params.expirationTime) query.set("expirationTime", params.expirationTime);
+        if (params.requestId) query.set("requestId", params.requestId);
+        if (params.redirectUrl) query.set("redirectUrl", params.redirectUrl);
+
+        const channel: RelayChannel = {
+            ...params,
+            channelToken,
+            nonce,
+            state: "pending",
+            url: `${connectUrl}?${query.toString()}`,
+            expiresAt: new Date(Date.now() + store.ttl * 1000),
+        };
+
+        await store.create(channel);
+        return channel;
+    };
+
+    /**
+     * Relay client with the same call shape as @farcaster/auth-client's app client
+     */
+    const client: RelayClient = {
+        createChannel: async (params) => {
+            const channel = await createChannel(params);
+            return {
+                isError: false,
+                data: { channelToken: channel.channelToken, url: channel.url, nonce: channel.nonce },
+            };
+        },
+        status: async ({ channelToken }) => {
+            const channel = await store.find(channelToken);
+            if (!channel) {
+                return { isError: true, error: new Error("Channel not found or expired") };
+            }
+            return { isError: false, data: toChannelStatus(channel) };
+        },
+    };
+
+    return {
+        client,
+        createChannel,
+        findChannel: store.find,
+        completeChannel: store.complete,
+        /**
+         * Check a Farcaster client's relay key against the configured auth keys
+         */
+        isAuthorizedClient: (authKey: string | null) =>
+            !!authKey && options.authKeys.includes(authKey),
+    };
+}
@@ -1,31 +1,71 @@
-import type { BetterAuthPlugin } from "better-auth";
-import { APIError, sessionMiddleware } from "better-auth/api";
-import { setSessionCookie } from 'better-auth/cookies';
+import type { AuthContext, BetterAuthPlugin } from "better-auth";
+import { APIError, getSessionFromCtx, sessionMiddleware } from "better-auth/api";
 import { createAuthEndpoint } from "better-auth/api";
+import { generateRandomString } from "better-auth/crypto";
 import { z } from "zod";
+import { checkAccessPolicy } from "../access";
+import { linkFarcasterAccount } from "../accounts";
+import { createAuditEventsEndpoint, recordAuthEvent, recordAuthFailure } from "../audit";
+import { splitVerifications } from "../profiles";
+import {
+    createAttachEmailEndpoint,
+    createFarcasterSession,
+    createProfileEndpoint,
+    createShared,
+    createSharedInit,
+    createUnlinkEndpoint,
+    getSharedSchema,
+    isEmailRequired,
+    resolveCookieOptions,
+    resolveFarcasterUser,
+    runAfterLink,
+    runAfterSignIn,
+    runBeforeSignIn,
+    syncFarcasterProfile,
+    type FarcasterShared,
+} from "../shared";
+import { createAppClientLoader, createSiweUriResolver, extractNonceFromMessage } from "../siwf";
+import { checkMessagePolicy } from "./message-policy";
+import { createEmbeddedRelay, relayChannelSchema, toChannelStatus, type RelayClient } from "./relay";
 
 // Import types
 import type {
     FarcasterUser,
+    FarcasterProfileData,
     FarcasterProfileResponse,
     FarcasterLinkResponse,
+    FarcasterAttachEmailResponse,
+    FarcasterRedirectResponse,
 } from "../types";
 import type {
     FarcasterCorePluginOptions,
+    FarcasterSIWFOptions,
+    EmbeddedRelayOptions,
+    SIWFMessagePolicy,
+    SIWFMessagePolicyErrorCode,
     SIWFChannelResponse,
+    SIWFChannelStatusResponse,
     SIWFVerifyResponse,
+    SIWFVerifySessionResponse,
 } from "./types";
 
 // Re-export types for convenience
 export type {
     FarcasterCorePluginOptions,
+    FarcasterSIWFOptions,
+    EmbeddedRelayOptions,
+    SIWFMessagePolicy,
+    SIWFMessagePolicyErrorCode,
     SIWFChannelResponse,
+    SIWFChannelStatusResponse,
     SIWFVerifyResponse,
+    SIWFVerifySessionResponse,
 };
 
 /**
  * Type utility to add Farcaster Core (SIWF) types to your auth instance.
- * Use this when Better Auth's automatic type inference doesn't work with external plugins.
+ * @deprecated `auth.api` now infers the plugin's endpoints with their exact request and response types,
+ * so the cast is no longer needed.
  * 
  * This preserves all base Better Auth types (getSession, signInEmail, etc.) while
  * adding the Farcaster Core API types.
@@ -50,82 +90,84 @@ export type {
 export type WithFarcasterCore<T> = T extends { api: infer API }
     ? Omit<T, 'api'> & {
         api: API & {
-            createChannelFarcaster: (params: { body?: { nonce?: string; notBefore?: string; expirationTime?: string; requestId?: string }; headers?: Headers }) => Promise<SIWFChannelResponse>;
-            channelStatusFarcaster: (params: { body: { channelToken: string }; headers?: Headers }) => Promise<any>;
-            verifySignatureFarcaster: (params: { body: { channelToken: string; message: string; signature: string; fid: number; username?: string; displayName?: string; pfpUrl?: string; bio?: string }; headers?: Headers }) => Promise<SIWFVerifyResponse>;
-            linkFarcaster: (params: { body: { channelToken: string; message: string; signature: string; fid: number }; headers?: Headers }) => Promise<FarcasterLinkResponse>;
-            unlinkFarcaster: (params: { headers?: Headers }) => Promise<FarcasterLinkResponse>;
+            createChannelFarcaster: (params: { body?: { notBefore?: string; expirationTime?: string; requestId?: string }; headers?: Headers }) => Promise<SIWFChannelResponse>;
+            channelStatusFarcaster: (params: { body: { channelToken: string }; headers?: Headers }) => Promise<SIWFChannelStatusResponse>;
+            verifySignatureFarcaster: (params: { body: { channelToken: string; message?: string; signature?: string; fid?: number; username?: string; displayName?: string; pfpUrl?: string; bio?: string; custody?: string; verifications?: string[] }; headers?: Headers }) => Promise<SIWFVerifyResponse>;
+            linkFarcaster: (params: { body: { channelToken: string; message?: string; signature?: string; fid?: number; username?: string; displayName?: string; pfpUrl?: string; bio?: string; custody?: string; verifications?: string[] }; headers?: Headers }) => Promise<FarcasterLinkResponse>;
+            unlinkFarcaster: (params: { body?: { force?: boolean }; headers?: Headers }) => Promise<FarcasterLinkResponse>;
             profileFarcaster: (params: { headers?: Headers }) => Promise<FarcasterProfileResponse>;
+            attachEmailFarcaster: (params: { body: { email: string; callbackURL?: string }; headers?: Headers }) => Promise<FarcasterAttachEmailResponse>;
         }
     }
     : T;
 
 /**
  * Type for Farcaster Core server API actions
- * Use this type for proper autocomplete when Better Auth's automatic
- * type inference doesn't work with external plugins.
+ * `auth.api` infers these from the plugin; this type is for code that takes the actions
+ * without knowing the auth instance, e.g. through {@link getFarcasterCoreApi}.
  * 
  * @example
  * ```ts
  * import { betterAuth } from "better-auth";
- * import { farcasterCoreAuth, type FarcasterCoreServerActions } from "better-auth-farcaster-plugin/core";
+ * import { farcasterCoreAuth } from "better-auth-farcaster-plugin/core";
  * 
  * const auth = betterAuth({
  *   plugins: [farcasterCoreAuth({ domain: "example.com", siweUri: "https://example.com/login" })],
  * });
  * 
- * // Option 1: Cast the auth object
- * export const typedAuth = auth as typeof auth & {
- *   api: { farcaster: FarcasterCoreServerActions }
- * };
- * await typedAuth.api.farcaster.createChannel({ body: {} });
- * 
- * // Option 2: Use the helper function
- * import { getFarcasterCoreApi } from "better-auth-farcaster-plugin/core";
- * const farcasterApi = getFarcasterCoreApi(auth);
- * await farcasterApi.createChannel({ body: {} });
+ * // Request and response types are inferred from the plugin
+ * await auth.api.createChannel({ body: {} });
  * ```
  */
 export interface FarcasterCoreServerActions {
     createChannel: (params: {
         body?: {
-            nonce?: string;
             notBefore?: string;
             expirationTime?: string;
             requestId?: string;
         };
         headers?: Headers
     }) => Promise<SIWFChannelResponse>;
-    channelStatus: (params: { body: { channelToken: string }; headers?: Headers }) => Promise<any>;
+    channelStatus: (params: { body: { channelToken: string }; headers?: Headers }) => Promise<SIWFChannelStatusResponse>;
     verifySignature: (params: {
         body: {
             channelToken: string;
-            message: string;
-            signature: string;
-            fid: number;
+            message?: string;
+            signature?: string;
+            fid?: number;
             username?: string;
             displayName?: string;
             pfpUrl?: string;
             bio?: string;
+            custody?: string;
+            verifications?: string[];
         };
         headers?: Headers
     }) => Promise<SIWFVerifyResponse>;
     link: (params: {
         body: {
             channelToken: string;
-            message: string;
-            signature: string;
-            fid: number;
+            message?: string;
+            signature?: string;
+            fid?: number;
+            username?: string;
+            displayName?: string;
+            pfpUrl?: string;
+            bio?: string;
+            custody?: string;
+            verifications?: string[];
         };
         headers?: Headers
     }) => Promise<FarcasterLinkResponse>;
-    unlink: (params: { headers?: Headers }) => Promise<FarcasterLinkResponse>;
+    unlink: (params: { body?: { force?: boolean }; headers?: Headers }) => Promise<FarcasterLinkResponse>;
     profile: (params: { headers?: Headers }) => Promise<FarcasterProfileResponse>;
+    attachEmail: (params: { body: { email: string; callbackURL?: string }; headers?: Headers }) => Promise<FarcasterAttachEmailResponse>;
 }
 
 /**
  * Helper function to get typed Farcaster Core server actions from any auth instance.
- * Use this to get proper autocomplete when Better Auth's type inference fails.
+ * Use it where the auth instance isn't typed, e.g. passed around as `any`;
+ * otherwise `auth.api` already has the same methods with inferred types.
  * 
  * @param auth - Your Better Auth instance (typed as any)
  * @returns Typed FarcasterCoreServerActions object
@@ -147,15 +189,34 @@ export interface FarcasterCoreServerActions {
  * ```
  */
 export function getFarcasterCoreApi(auth: any): FarcasterCoreServerActions {
-    return (auth.api as any).farcaster as FarcasterCoreServerActions;
+    return auth.api as FarcasterCoreServerActions;
 }
 
-// Type for user records from the adapter
-type UserRecord = { id: string;[key: string]: unknown };
+// Type for server-issued nonce records from the adapter
+type NonceRecord = {
+    id: string;
+    nonce: string;
+    channelToken: string;
+    sessionId?: string | null;
+    expiresAt: Date;
+    consumedAt?: Date | null;
+};
+
+// Signed SIWF payload for a channel, either posted by the client or read from the relay
+type ChannelPayload = {
+    message: string;
+    signature: `0x${string}`;
+    fid: number;
+    username?: string;
+    displayName?: string;
+    pfpUrl?: string;
+    bio?: string;
+    custody?: string;
+    verifications?: string[];
+};
 
 // Input schemas
 const createChannelSchema = z.object({
-    nonce: z.string().min(8).optional(),
     notBefore: z.string().optional(),
     expirationTime: z.string().optional(),
     requestId: z.string().optional(),
@@ -163,108 +224,190 @@ const createChannelSchema = z.object({
 
 const verifySignatureSchema = z.object({
     channelToken: z.string().min(1, "Channel token is required"),
-    message: z.string().min(1, "Message is required"),
-    signature: z.string().regex(/^0x[a-fA-F0-9]+$/, "Invalid signature format"),
-    fid: z.number().int().positive("FID must be a positive integer"),
+    message: z.string().min(1, "Message is required").optional(),
+    signature: z.string().regex(/^0x[a-fA-F0-9]+$/, "Invalid signature format").optional(),
+    fid: z.number().int().positive("FID must be a positive integer").optional(),
     username: z.string().optional(),
     displayName: z.string().optional(),
     pfpUrl: z.string().url().optional().or(z.literal('')),
     bio: z.string().optional(),
+    custody: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid custody address").optional(),
+    verifications: z.array(z.string()).optional(),
 });
 
-const linkAccountSchema = z.object({
-    channelToken: z.string().min(1, "Channel token is required"),
+const relayCreateChannelSchema = z.object({
+    siweUri: z.string().url(),
+    domain: z.string().min(1),
+    nonce: z.string().regex(/^[a-zA-Z0-9]{8,}$/, "Invalid nonce").optional(),
+    notBefore: z.string().optional(),
+    expirationTime: z.string().optional(),
+    requestId: z.string().optional(),
+    redirectUrl: z.string().optional(),
+});
+
+const relayAuthenticateSchema = z.object({
     message: z.string().min(1, "Message is required"),
     signature: z.string().regex(/^0x[a-fA-F0-9]+$/, "Invalid signature format"),
+    authMethod: z.enum(["custody", "authAddress"]).optional(),
     fid: z.number().int().positive("FID must be a positive integer"),
+    username: z.string().optional(),
+    bio: z.string().optional(),
+    displayName: z.string().optional(),
+    pfpUrl: z.string().optional(),
+    verifications: z.array(z.string()).optional(),
+    custody: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid custody address").optional(),
 });
 
-/**
- * Extract hostname from a URL string
- */
-function getDomainFromUrl(url: string): string {
-    if (!url.includes("://") && !url.startsWith("//")) {
-        return url.split(":")[0].split("/")[0];
-    }
-    try {
-        const parsedUrl = new URL(url);
-        return parsedUrl.hostname;
-    } catch {
-        const cleaned = url.replace(/^(https?:)?\/\//, "");
-        return cleaned.split(":")[0].split("/")[0];
-    }
-}
+// Linking accepts the same signed payload and profile fields as signing in
+const linkAccountSchema = verifySignatureSchema;
 
 /**
- * Farcaster Core authentication plugin for Better Auth
- * Uses channel-based SIWF (Sign In With Farcaster) for OAuth-like authentication
- * 
- * This plugin uses @farcaster/auth-client to create channels and verify signatures.
- * It's designed for regular web pages where users authenticate via QR codes or deeplinks.
- * 
- * @example
- * ```ts
- * import { farcasterCoreAuth } from "better-auth-farcaster-plugin/core";
- * 
- * export const auth = betterAuth({
- *     plugins: [
- *         farcasterCoreAuth({
- *             domain: "example.com",
- *             siweUri: "https://example.com/login",
- *         }),
- *     ],
- * });
- * ```
+ * Create the schema, endpoints and rate limits of the SIWF flow
+ * Used by `farcasterCoreAuth` and the combined `farcasterAuth` plugin
+ * @param shared - Shared plugin options
+ * @param options - SIWF flow options
  */
-export const farcasterCoreAuth = (options: FarcasterCorePluginOptions): BetterAuthPlugin => {
-    const domain = getDomainFromUrl(options.domain);
-    const siweUri = options.siweUri;
+export function createSIWFFlow(shared: FarcasterShared, options: FarcasterSIWFOptions) {
+    const { resolveDomain, providerId } = shared;
+    // Prefer the SIWE URI served from the request's domain
+    const getSiweUri = createSiweUriResolver(options.siweUri);
     const relay = options.relay || 'https://relay.farcaster.xyz';
+    const nonceExpiresIn = options.nonceExpiresIn ?? 600;
+    const verifyMode = options.verifyMode || "client";
+    const channelEventsInterval = options.channelEvents?.interval ?? 1000;
+    const channelEventsTimeout = options.channelEvents?.timeout ?? 300000;
+
+    if (options.embeddedRelay && !options.embeddedRelay.connectUrl) {
+        throw new Error("embeddedRelay.connectUrl is required: the default sign-in link never reaches the embedded relay");
+    }
 
-    const cookieOptions = {
-        secure: true,
-        sameSite: "lax" as const,
-        httpOnly: true,
-        path: "/",
-        ...options.cookieOptions,
+    const cookieOptions = resolveCookieOptions(
+        { sameSite: "lax" },
+        shared.options.cookieOptions,
+        options.cookieOptions
+    );
+
+    const getAppClient = createAppClientLoader(relay, options.rpcUrl);
+
+    /**
+     * Get the relay used for channel creation and status:
+     * the embedded relay when configured, otherwise the remote relay via @farcaster/auth-client
+     */
+    const getRelayClient = async (context: AuthContext): Promise<RelayClient> => {
+        if (options.embeddedRelay) {
+            return createEmbeddedRelay(context, options.embeddedRelay).client;
+        }
+        return getAppClient();
     };
 
-    // Lazy load @farcaster/auth-client to make it optional
-    let appClient: any = null;
-    const getAppClient = async () => {
-        if (!appClient) {
-            try {
-                const { createAppClient, viemConnector } = await import('@farcaster/auth-client');
-                appClient = createAppClient({
-                    relay,
-                    ethereum: viemConnector(),
-                });
-            } catch (error) {
-                throw new APIError("INTERNAL_SERVER_ERROR", {
-                    message: "Failed to initialize Farcaster auth client. Make sure @farcaster/auth-client and viem are installed.",
+    /**
+     * Resolve the signed SIWF payload for a channel.
+     * In "server" mode the completed channel is read from the relay and client-posted fields are ignored.
+     */
+    const getChannelPayload = async (
+        relayClient: RelayClient,
+        body: z.infer<typeof verifySignatureSchema>
+    ): Promise<ChannelPayload> => {
+        if (verifyMode === "client") {
+            if (!body.message || !body.signature || !body.fid) {
+                throw new APIError("BAD_REQUEST", {
+                    message: "message, signature and fid are required",
                 });
             }
+            return {
+                message: body.message,
+                signature: body.signature as `0x${string}`,
+                fid: body.fid,
+                username: body.username,
+                displayName: body.displayName,
+                pfpUrl: body.pfpUrl || undefined,
+                bio: body.bio,
+                custody: body.custody,
+                verifications: body.verifications,
+            };
         }
-        return appClient;
+
+        const result = await relayClient.status({ channelToken: body.channelToken });
+
+        if (result.isError) {
+            throw new APIError("BAD_REQUEST", {
+                message: result.error?.message || "Failed to get channel status",
+            });
+        }
+
+        const status = result.data as Partial<ChannelPayload> & { state?: string };
+
+        if (status.state !== "completed" || !status.message || !status.signature || !status.fid) {
+            throw new APIError("BAD_REQUEST", {
+                message: "Channel has not been completed",
+            });
+        }
+
+        return {
+            message: status.message,
+            signature: status.signature,
+            fid: status.fid,
+            username: status.username,
+            displayName: status.displayName,
+            pfpUrl: status.pfpUrl,
+            bio: status.bio,
+            custody: status.custody,
+            verifications: status.verifications,
+        };
     };
 
+    // Profile fields of a signed payload, in the shape of the `farcasterProfile` model
+    const getProfileData = (payload: ChannelPayload): FarcasterProfileData => ({
+        username: payload.username,
+        displayName: payload.displayName,
+        pfpUrl: payload.pfpUrl,
+        bio: payload.bio,
+        custodyAddress: payload.custody,
+        ...splitVerifications(payload.verifications),
+    });
+
     return {
-        id: "farcaster",
         schema: {
-            user: {
+            farcasterNonce: {
                 fields: {
-                    fid: {
-                        type: "number",
+                    nonce: {
+                        type: "string",
                         unique: true,
+                        required: true,
+                    },
+                    channelToken: {
+                        type: "string",
+                        required: true,
+                    },
+                    sessionId: {
+                        type: "string",
+                        required: false,
+                    },
+                    expiresAt: {
+                        type: "date",
+                        required: true,
+                    },
+                    consumedAt: {
+                        type: "date",
                         required: false,
                     },
+                    createdAt: {
+                        type: "date",
+                        required: true,
+                    },
                 },
             },
-        },
+            // Channel table for the embedded relay (not needed when channels live in secondaryStorage)
+            ...(options.embeddedRelay && options.embeddedRelay.storage !== "secondaryStorage"
+                ? { farcasterRelayChannel: relayChannelSchema }
+                : {}),
+        } satisfies BetterAuthPlugin["schema"],
         endpoints: {
             /**
              * Create a new SIWF channel for authentication
-             * Returns a URL that can be displayed as a QR code or used as a deeplink
+             * Returns a URL that can be displayed as a QR code or used as a deeplink.
+             * The nonce is generated and stored server-side, bound to the channel token
+             * and the requesting session (if any).
              */
             createChannel: createAuthEndpoint(
                 "/farcaster/create-channel",
@@ -280,22 +423,36 @@ export const farcasterCoreAuth = (options: FarcasterCorePluginOptions): BetterAu
                     },
                 },
                 async (ctx) => {
-                    const { nonce, notBefore, expirationTime, requestId } = ctx.body || {};
+                    const { notBefore, expirationTime, requestId } = ctx.body || {};
 
                     try {
-                        const client = await getAppClient();
+                        const relayClient = await getRelayClient(ctx.context);
+                        const currentSession = await getSessionFromCtx(ctx);
+                        const domain = await resolveDomain(ctx.request, ctx.headers);
+
+                        const nonce = generateRandomString(32, "a-z", "A-Z", "0-9");
+                        let expiresAt = new Date(Date.now() + nonceExpiresIn * 1000);
+                        if (expirationTime) {
+                            const requestedExpiry = new Date(expirationTime);
+                            if (Number.isNaN(requestedExpiry.getTime())) {
+                                throw new APIError("BAD_REQUEST", {
+                                    message: "Invalid expirationTime",
+                                });
+                            }
+                            if (requestedExpiry < expiresAt) expiresAt = requestedExpiry;
+                        }
 
                         const channelParams: any = {
-                            siweUri,
+                            siweUri: getSiweUri(domain),
                             domain,
+                            nonce,
                         };
 
-                        if (nonce) channelParams.nonce = nonce;
                         if (notBefore) channelParams.notBefore = notBefore;
                         if (expirationTime) channelParams.expirationTime = expirationTime;
                         if (requestId) channelParams.requestId = requestId;
 
-                        const result = await client.createChannel(channelParams);
+                        const result = await relayClient.createChannel(channelParams);
 
                         if (result.isError) {
                             throw new APIError("INTERNAL_SERVER_ERROR", {
@@ -303,10 +460,28 @@ export const farcasterCoreAuth = (options: FarcasterCorePluginOptions): BetterAu
                             });
                         }
 
+                        // Drop expired nonces before storing the new one
+                        await ctx.context.adapter.deleteMany({
+                            model: "farcasterNonce",
+                            where: [{ field: "expiresAt", operator: "lt", value: new Date() }],
+                        });
+
+                        await ctx.context.adapter.create({
+                            model: "farcasterNonce",
+                            data: {
+                                nonce,
+                                channelToken: result.data.channelToken,
+                                sessionId: currentSession?.session.id ?? null,
+                                expiresAt,
+                                consumedAt: null,
+                                createdAt: new Date(),
+                            },
+                        });
+
                         const response: SIWFChannelResponse = {
                             channelToken: result.data.channelToken,
                             url: result.data.url,
-                            nonce: result.data.nonce,
+                            nonce,
                         };
 
                         return ctx.json(response);
@@ -346,9 +521,9 @@ export const farcasterCoreAuth = (options: FarcasterCorePluginOptions): BetterAu
                     const { channelToken } = ctx.body;
 
                     try {
-                        const client = await getAppClient();
+                        const relayClient = await getRelayClient(ctx.context);
 
-                        const result = await client.status({ channelToken });
+                        const result = await relayClient.status({ channelToken });
 
                         if (result.isError) {
                             throw new APIError("BAD_REQUEST", {
@@ -369,6 +544,92 @@ export const farcasterCoreAuth = (options: FarcasterCorePluginOptions): BetterAu
                 }
             ),
 
+            /**
+             * Stream channel status changes as Server-Sent Events
+             * Emits `pending` once, then `completed` (with the channel data), `expired`, `timeout` or `failed`, and closes
+             */
+            channelEvents: createAuthEndpoint(
+                "/farcaster/channel-events",
+                {
+                    method: "GET",
+                    query: z.object({
+                        channelToken: z.string().min(1, "Channel token is required"),
+                    }),
+                    metadata: {
+                        openapi: {
+                            summary: "Stream SIWF channel status",
+                            description: "Server-Sent Events stream of a Sign In With Farcaster channel's status",
+                            tags: ["Farcaster"],
+                        },
+                    },
+                },
+                async (ctx) => {
+                    const { channelToken } = ctx.query;
+                    const relayClient = await getRelayClient(ctx.context);
+                    const signal = ctx.request?.signal;
+                    const encoder = new TextEncoder();
+                    let closed = false;
+
+                    const stream = new ReadableStream<Uint8Array>({
+                        async start(controller) {
+                            const send = (event: string, data: unknown) => {
+                                controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+                            };
+                            const deadline = Date.now() + channelEventsTimeout;
+                            let sentPending = false;
+
+                            try {
+                                while (!closed && !signal?.aborted) {
+                                    const result = await relayClient.status({ channelToken });
+
+                                    if (result.isError) {
+                                        // Same rule as polling: only a missing/expired channel ends the stream
+                                        if (/expired|not found/i.test(result.error?.message || "")) {
+                                            send("expired", { message: "Channel expired" });
+                                            break;
+                                        }
+                                    } else if (result.data.state === "completed") {
+                                        send("completed", result.data);
+                                        break;
+                                    } else if (!sentPending) {
+                                        send("pending", result.data);
+                                        sentPending = true;
+                                    } else {
+                                        controller.enqueue(encoder.encode(": keep-alive\n\n"));
+                                    }
+
+                                    if (Date.now() > deadline) {
+                                        send("timeout", { message: "Channel status stream timed out" });
+                                        break;
+                                    }
+
+                                    await new Promise((resolve) => setTimeout(resolve, channelEventsInterval));
+                                }
+                            } catch (error) {
+                                ctx.context.logger.error("SIWF channel events error:", error);
+                                if (!closed) send("failed", { message: "Failed to get channel status" });
+                            } finally {
+                                if (!closed) {
+                                    closed = true;
+                                    controller.close();
+                                }
+                            }
+                        },
+                        cancel() {
+                            closed = true;
+                        },
+                    });
+
+                    return new Response(stream, {
+                        headers: {
+                            "Content-Type": "text/event-stream",
+                            "Cache-Control": "no-cache, no-transform",
+                            Connection: "keep-alive",
+                        },
+                    });
+                }
+            ),
+
             /**
              * Verify a SIWF signature and create a session
              */
@@ -386,15 +647,23 @@ export const farcasterCoreAuth = (options: FarcasterCorePluginOptions): BetterAu
                     },
                 },
                 async (ctx) => {
-                    const { channelToken, message, signature, fid, username, displayName, pfpUrl, bio } = ctx.body;
+                    const { channelToken } = ctx.body;
+                    // The FID the payload claims, and whether it has been verified
+                    let fid: number | undefined;
+                    let verified = false;
+                    let releaseNonce: (() => Promise<void>) | undefined;
 
                     try {
                         const client = await getAppClient();
+                        const payload = await getChannelPayload(await getRelayClient(ctx.context), ctx.body);
+                        const { message, signature } = payload;
+                        fid = payload.fid;
+                        const domain = await resolveDomain(ctx.request, ctx.headers);
 
                         // Verify the message using the auth client
                         const verifyResult = await client.verifySignInMessage({
                             message,
-                            signature: signature as `0x${string}`,
+                            signature,
                             domain,
                             nonce: extractNonceFromMessage(message),
                         });
@@ -409,109 +678,64 @@ export const farcasterCoreAuth = (options: FarcasterCorePluginOptions): BetterAu
                         if (verifyResult.fid !== fid) {
                             throw new APIError("UNAUTHORIZED", {
                                 message: "FID mismatch",
+                                code: "FID_MISMATCH",
                             });
                         }
 
-                        // Check if user already exists with this FID
-                        const existingUser = await ctx.context.adapter.findOne({
-                            model: "user",
-                            where: [
-                                {
-                                    field: "fid",
-                                    value: fid,
-                                },
-                            ],
-                        }) as UserRecord | null;
-
-                        let user: UserRecord;
-
-                        if (existingUser) {
-                            // Update user with latest profile data if provided
-                            const updateData: Record<string, any> = {};
-                            if (displayName) updateData.name = displayName;
-                            if (pfpUrl) updateData.image = pfpUrl;
-
-                            if (Object.keys(updateData).length > 0) {
-                                await ctx.context.adapter.update({
-                                    model: "user",
-                                    where: [{ field: "id", value: existingUser.id }],
-                                    update: updateData,
-                                });
-                            }
+                        checkMessagePolicy(message, { fid, siweUri: getSiweUri(domain), policy: options.messagePolicy });
 
-                            user = existingUser;
-                        } else {
-                            // Resolve additional user data if provided
-                            const additionalData = options.resolveUserData
-                                ? await options.resolveUserData(fid)
-                                : { name: undefined, email: undefined, image: undefined };
-
-                            // Create new user with FID - ID format: "fid:[actualfid]"
-                            const userId = `fid:${fid}`;
-                            const createdUser = await ctx.context.adapter.create({
-                                model: "user",
-                                data: {
-                                    id: userId,
-                                    fid,
-                                    email: additionalData.email || `${fid}@farcaster.local`,
-                                    name: additionalData.name || displayName || username || `Farcaster User ${fid}`,
-                                    image: additionalData.image || pfpUrl,
-                                    emailVerified: true,
-                                },
-                            }) as UserRecord;
-                            user = createdUser;
-                        }
-
-                        // Create or update account in the account table
-                        const existingAccount = await ctx.context.adapter.findOne({
-                            model: "account",
-                            where: [
-                                { field: "providerId", value: "Farcaster" },
-                                { field: "accountId", value: String(fid) },
-                            ],
+                        // Only accept a nonce we issued for this channel, and burn it
+                        releaseNonce = await consumeNonce(ctx.context.adapter, {
+                            nonce: extractNonceFromMessage(message),
+                            channelToken,
                         });
+                        verified = true;
 
-                        if (!existingAccount) {
-                            await ctx.context.adapter.create({
-                                model: "account",
-                                data: {
-                                    accountId: String(fid),
-                                    providerId: "Farcaster",
-                                    userId: user.id,
-                                },
-                            });
-                        }
+                        await checkAccessPolicy(shared.options.accessPolicy, { fid, flow: "siwf", action: "signIn", request: ctx.request });
 
-                        // Create session for the user
-                        const session = await ctx.context.internalAdapter.createSession(
-                            user.id,
-                            false // rememberMe = true (dontRememberMe = false)
-                        );
-
-                        if (!session) {
-                            throw new APIError("INTERNAL_SERVER_ERROR", {
-                                message: "Failed to create session",
-                            });
+                        const redirectUrl = await runBeforeSignIn(shared, { fid, flow: "siwf", request: ctx.request });
+                        if (redirectUrl) {
+                            const redirect: FarcasterRedirectResponse = { redirect: true, url: redirectUrl };
+                            return ctx.json(redirect);
                         }
 
-                        await setSessionCookie(
-                            ctx,
-                            {
-                                session,
-                                user: user as unknown as FarcasterUser,
-                            },
-                            false,
-                            cookieOptions
-                        );
+                        const { user, isNewUser } = await resolveFarcasterUser(ctx.context, shared, {
+                            fid,
+                            flow: "siwf",
+                            profile: getProfileData(payload),
+                        });
+                        const session = await createFarcasterSession(ctx, user, cookieOptions);
+                        await runAfterSignIn(ctx.context, shared, { user, session, fid, flow: "siwf", request: ctx.request }, isNewUser);
+                        await recordAuthEvent(ctx, {
+                            type: isNewUser ? "sign_up" : "sign_in",
+                            outcome: "success",
+                            fid,
+                            userId: user.id,
+                            flow: "siwf",
+                            channelToken,
+                        });
 
-                        const response: SIWFVerifyResponse = {
+                        const response: SIWFVerifySessionResponse = {
                             success: true,
                             user: user as unknown as FarcasterUser,
                             session,
+                            emailRequired: isEmailRequired(shared, user),
                         };
 
                         return ctx.json(response);
                     } catch (error) {
+                        // Let the same signed message be retried when a later step fails
+                        await releaseNonce?.().catch((releaseError) => {
+                            ctx.context.logger.error("Failed to release SIWF nonce:", releaseError);
+                        });
+
+                        await recordAuthFailure(ctx, error, {
+                            type: verified ? "sign_in" : "verification_failed",
+                            fid,
+                            flow: "siwf",
+                            channelToken,
+                        });
+
                         if (error instanceof APIError) {
                             throw error;
                         }
@@ -543,16 +767,24 @@ export const farcasterCoreAuth = (options: FarcasterCorePluginOptions): BetterAu
                     },
                 },
                 async (ctx) => {
-                    const { channelToken, message, signature, fid } = ctx.body;
+                    const { channelToken } = ctx.body;
                     const session = ctx.context.session;
+                    // The FID the payload claims, and whether it has been verified
+                    let fid: number | undefined;
+                    let verified = false;
+                    let releaseNonce: (() => Promise<void>) | undefined;
 
                     try {
                         const client = await getAppClient();
+                        const payload = await getChannelPayload(await getRelayClient(ctx.context), ctx.body);
+                        const { message, signature } = payload;
+                        fid = payload.fid;
+                        const domain = await resolveDomain(ctx.request, ctx.headers);
 
                         // Verify the message
                         const verifyResult = await client.verifySignInMessage({
                             message,
-                            signature: signature as `0x${string}`,
+                            signature,
                             domain,
                             nonce: extractNonceFromMessage(message),
                         });
@@ -566,39 +798,28 @@ export const farcasterCoreAuth = (options: FarcasterCorePluginOptions): BetterAu
                         if (verifyResult.fid !== fid) {
                             throw new APIError("UNAUTHORIZED", {
                                 message: "FID mismatch",
+                                code: "FID_MISMATCH",
                             });
                         }
 
-                        // Check if this FID is already linked to another account
-                        const existingUser = await ctx.context.adapter.findOne({
-                            model: "user",
-                            where: [
-                                {
-                                    field: "fid",
-                                    value: fid,
-                                },
-                            ],
-                        }) as UserRecord | null;
-
-                        if (existingUser && existingUser.id !== session.user.id) {
-                            throw new APIError("BAD_REQUEST", {
-                                message: "This Farcaster account is already linked to another user",
-                            });
-                        }
+                        checkMessagePolicy(message, { fid, siweUri: getSiweUri(domain), policy: options.messagePolicy });
 
-                        // Update the user with the FID
-                        const updatedUser = await ctx.context.adapter.update({
-                            model: "user",
-                            where: [
-                                {
-                                    field: "id",
-                                    value: session.user.id,
-                                },
-                            ],
-                            update: {
-                                fid,
-                            },
-                        }) as UserRecord | null;
+                        // The nonce must have been issued to this session for this channel
+                        releaseNonce = await consumeNonce(ctx.context.adapter, {
+                            nonce: extractNonceFromMessage(message),
+                            channelToken,
+                            sessionId: session.session.id,
+                        });
+                        verified = true;
+
+                        await checkAccessPolicy(shared.options.accessPolicy, { fid, flow: "siwf", action: "link", request: ctx.request });
+
+                        // Set the FID and create the account row together
+                        const updatedUser = await linkFarcasterAccount(ctx.context.adapter, {
+                            userId: session.user.id,
+                            fid,
+                            providerId,
+                        });
 
                         if (!updatedUser) {
                             throw new APIError("INTERNAL_SERVER_ERROR", {
@@ -606,11 +827,45 @@ export const farcasterCoreAuth = (options: FarcasterCorePluginOptions): BetterAu
                             });
                         }
 
+                        await syncFarcasterProfile(ctx.context, shared, {
+                            userId: updatedUser.id,
+                            fid,
+                            profile: getProfileData(payload),
+                        });
+                        await runAfterLink(ctx.context, shared, {
+                            user: updatedUser,
+                            session: session.session,
+                            fid,
+                            flow: "siwf",
+                            request: ctx.request,
+                        });
+                        await recordAuthEvent(ctx, {
+                            type: "link",
+                            outcome: "success",
+                            fid,
+                            userId: updatedUser.id,
+                            flow: "siwf",
+                            channelToken,
+                        });
+
                         return ctx.json({
                             success: true,
                             user: updatedUser as unknown as FarcasterUser,
                         });
                     } catch (error) {
+                        // Let the same signed message be retried when a later step fails
+                        await releaseNonce?.().catch((releaseError) => {
+                            ctx.context.logger.error("Failed to release SIWF nonce:", releaseError);
+                        });
+
+                        await recordAuthFailure(ctx, error, {
+                            type: verified ? "link" : "verification_failed",
+                            fid,
+                            userId: session.user.id,
+                            flow: "siwf",
+                            channelToken,
+                        });
+
                         if (error instanceof APIError) {
                             throw error;
                         }
@@ -627,87 +882,162 @@ export const farcasterCoreAuth = (options: FarcasterCorePluginOptions): BetterAu
             /**
              * Unlink Farcaster from the current account
              */
-            unlink: createAuthEndpoint(
-                "/farcaster/unlink",
-                {
-                    method: "POST",
-                    use: [sessionMiddleware],
-                    metadata: {
-                        openapi: {
-                            summary: "Unlink Farcaster account",
-                            description: "Remove Farcaster FID from the current account",
-                            tags: ["Farcaster"],
+            unlink: createUnlinkEndpoint("/farcaster/unlink", shared, "siwf"),
+
+            /**
+             * Get the Farcaster profile for the current user
+             */
+            profile: createProfileEndpoint("/farcaster/profile", shared),
+
+            /**
+             * Attach a real email to a Farcaster user
+             */
+            attachEmail: createAttachEmailEndpoint("/farcaster/attach-email", shared),
+
+            /**
+             * List audit log entries (only when `auditLog` is on)
+             */
+            ...(shared.auditLog ? {
+                auditEvents: createAuditEventsEndpoint("/farcaster/audit-events", shared),
+            } : {}),
+
+            // Embedded relay endpoints, following the Farcaster Auth relay protocol
+            ...(options.embeddedRelay ? {
+                /**
+                 * Create a relay channel (relay protocol: POST /v1/channel)
+                 */
+                relayCreateChannel: createAuthEndpoint(
+                    "/farcaster/relay/v1/channel",
+                    {
+                        method: "POST",
+                        body: relayCreateChannelSchema,
+                        metadata: {
+                            openapi: {
+                                summary: "Create relay channel",
+                                description: "Create a channel on the embedded Farcaster Auth relay",
+                                tags: ["Farcaster"],
+                            },
                         },
                     },
-                },
-                async (ctx) => {
-                    const session = ctx.context.session;
-                    const currentUser = session.user as FarcasterUser;
+                    async (ctx) => {
+                        const relay = createEmbeddedRelay(ctx.context, options.embeddedRelay!);
+                        const channel = await relay.createChannel(ctx.body);
 
-                    if (!currentUser.fid) {
-                        throw new APIError("BAD_REQUEST", {
-                            message: "No Farcaster account linked",
+                        ctx.setStatus(201);
+                        return ctx.json({
+                            channelToken: channel.channelToken,
+                            url: channel.url,
+                            nonce: channel.nonce,
                         });
                     }
-
-                    const updatedUser = await ctx.context.adapter.update({
-                        model: "user",
-                        where: [
-                            {
-                                field: "id",
-                                value: session.user.id,
+                ),
+
+                /**
+                 * Accept the signed message from a Farcaster client (relay protocol: POST /v1/channel/authenticate)
+                 */
+                relayAuthenticate: createAuthEndpoint(
+                    "/farcaster/relay/v1/channel/authenticate",
+                    {
+                        method: "POST",
+                        body: relayAuthenticateSchema,
+                        metadata: {
+                            openapi: {
+                                summary: "Authenticate relay channel",
+                                description: "Called by a Farcaster client to complete a channel on the embedded relay",
+                                tags: ["Farcaster"],
                             },
-                        ],
-                        update: {
-                            fid: null,
                         },
-                    }) as UserRecord | null;
+                    },
+                    async (ctx) => {
+                        const relay = createEmbeddedRelay(ctx.context, options.embeddedRelay!);
 
-                    if (!updatedUser) {
-                        throw new APIError("INTERNAL_SERVER_ERROR", {
-                            message: "Failed to update user",
+                        if (!relay.isAuthorizedClient(ctx.headers?.get("x-farcaster-auth-relay-key") ?? null)) {
+                            throw new APIError("UNAUTHORIZED", {
+                                message: "Invalid relay auth key",
+                            });
+                        }
+
+                        const channel = await relay.findChannel(getBearerToken(ctx.headers));
+
+                        if (!channel) {
+                            throw new APIError("NOT_FOUND", {
+                                message: "Channel not found or expired",
+                            });
+                        }
+
+                        if (channel.state === "completed") {
+                            throw new APIError("BAD_REQUEST", {
+                                message: "Channel already completed",
+                            });
+                        }
+
+                        if (extractNonceFromMessage(ctx.body.message) !== channel.nonce) {
+                            throw new APIError("BAD_REQUEST", {
+                                message: "Nonce does not match channel",
+                            });
+                        }
+
+                        // Only a message signed for this channel by the owner of the FID completes it
+                        const client = await getAppClient();
+                        const verifyResult = await client.verifySignInMessage({
+                            message: ctx.body.message,
+                            signature: ctx.body.signature as `0x${string}`,
+                            domain: channel.domain,
+                            nonce: channel.nonce,
+                            acceptAuthAddress: true,
                         });
-                    }
 
-                    return ctx.json({
-                        success: true,
-                        user: updatedUser as unknown as FarcasterUser,
-                    });
-                }
-            ),
+                        if (verifyResult.isError || !verifyResult.success || verifyResult.fid !== ctx.body.fid) {
+                            throw new APIError("UNAUTHORIZED", {
+                                message: "Invalid signature",
+                            });
+                        }
 
-            /**
-             * Get the Farcaster profile for the current user
-             */
-            profile: createAuthEndpoint(
-                "/farcaster/profile",
-                {
-                    method: "GET",
-                    use: [sessionMiddleware],
-                    metadata: {
-                        openapi: {
-                            summary: "Get Farcaster profile",
-                            description: "Get the Farcaster FID and user data for the authenticated user",
-                            tags: ["Farcaster"],
+                        const completed = await relay.completeChannel(channel, {
+                            ...ctx.body,
+                            signature: ctx.body.signature as `0x${string}`,
+                            custody: ctx.body.custody as `0x${string}` | undefined,
+                            authMethod: verifyResult.authMethod,
+                        });
+
+                        return ctx.json(toChannelStatus(completed));
+                    }
+                ),
+
+                /**
+                 * Read a relay channel's status (relay protocol: GET /v1/channel/status)
+                 * Responds 202 while pending and 200 once completed
+                 */
+                relayChannelStatus: createAuthEndpoint(
+                    "/farcaster/relay/v1/channel/status",
+                    {
+                        method: "GET",
+                        metadata: {
+                            openapi: {
+                                summary: "Get relay channel status",
+                                description: "Read a channel's status from the embedded Farcaster Auth relay",
+                                tags: ["Farcaster"],
+                            },
                         },
                     },
-                },
-                async (ctx) => {
-                    const session = ctx.context.session;
-                    const currentUser = session.user as FarcasterUser;
+                    async (ctx) => {
+                        const relay = createEmbeddedRelay(ctx.context, options.embeddedRelay!);
+                        const channel = await relay.findChannel(getBearerToken(ctx.headers));
 
-                    if (!currentUser?.fid) {
-                        throw new APIError("BAD_REQUEST", {
-                            message: "No Farcaster FID found for user",
-                        });
-                    }
+                        if (!channel) {
+                            throw new APIError("NOT_FOUND", {
+                                message: "Channel not found or expired",
+                            });
+                        }
 
-                    return ctx.json({
-                        fid: currentUser.fid,
-                        user: currentUser,
-                    });
-                }
-            ),
+                        if (channel.state === "pending") {
+                            ctx.setStatus(202);
+                        }
+
+                        return ctx.json(toChannelStatus(channel));
+                    }
+                ),
+            } : {}),
         },
 
         // Rate limiting for authentication endpoints
@@ -727,19 +1057,148 @@ export const farcasterCoreAuth = (options: FarcasterCorePluginOptions): BetterAu
                 max: 60,
                 window: 60, // 60 requests per minute (for polling)
             },
+            {
+                pathMatcher: (path: string) => path === "/farcaster/channel-events",
+                max: 10,
+                window: 60, // 10 streams per minute
+            },
             {
                 pathMatcher: (path: string) => path === "/farcaster/link",
                 max: 5,
                 window: 60, // 5 requests per minute
             },
+            {
+                pathMatcher: (path: string) => path === "/farcaster/relay/v1/channel",
+                max: 10,
+                window: 60, // 10 requests per minute
+            },
+            {
+                pathMatcher: (path: string) => path === "/farcaster/relay/v1/channel/authenticate",
+                max: 10,
+                window: 60, // 10 requests per minute
+            },
+            {
+                pathMatcher: (path: string) => path === "/farcaster/relay/v1/channel/status",
+                max: 60,
+                window: 60, // 60 requests per minute (for polling)
+            },
         ],
     };
+}
+
+/**
+ * Farcaster Core authentication plugin for Better Auth
+ * Uses channel-based SIWF (Sign In With Farcaster) for OAuth-like authentication
+ * 
+ * This plugin uses @farcaster/auth-client to create channels and verify signatures.
+ * It's designed for regular web pages where users authenticate via QR codes or deeplinks.
+ * To run both the Miniapp and SIWF flows, use the combined `farcasterAuth` plugin instead.
+ * 
+ * @example
+ * ```ts
+ * import { farcasterCoreAuth } from "better-auth-farcaster-plugin/core";
+ * 
+ * export const auth = betterAuth({
+ *     plugins: [
+ *         farcasterCoreAuth({
+ *             domain: "example.com",
+ *             siweUri: "https://example.com/login",
+ *         }),
+ *     ],
+ * });
+ * ```
+ */
+export const farcasterCoreAuth = (options: FarcasterCorePluginOptions) => {
+    const shared = createShared(options);
+    const { schema, endpoints, rateLimit } = createSIWFFlow(shared, options);
+
+    return {
+        id: "farcaster",
+        init: createSharedInit(shared),
+        schema: {
+            ...getSharedSchema(shared),
+            ...schema,
+        },
+        endpoints,
+        rateLimit,
+    } satisfies BetterAuthPlugin;
 };
 
 /**
- * Extract nonce from a SIWE message
+ * Extract the token from an `Authorization: Bearer <token>` header
+ */
+function getBearerToken(headers?: Headers): string {
+    const authorization = headers?.get("authorization") || "";
+    return authorization.replace(/^Bearer\s+/i, "").trim();
+}
+
+/**
+ * Atomically check and consume a server-issued nonce.
+ * Throws if the nonce is unknown, bound to another channel or session, expired, or already used.
+ * @returns Function releasing the nonce again, for when the rest of the sign-in fails
  */
-function extractNonceFromMessage(message: string): string {
-    const nonceMatch = message.match(/Nonce: ([^\n]+)/);
-    return nonceMatch ? nonceMatch[1] : '';
+async function consumeNonce(
+    adapter: AuthContext["adapter"],
+    params: { nonce: string; channelToken: string; sessionId?: string }
+): Promise<() => Promise<void>> {
+    const { nonce, channelToken, sessionId } = params;
+
+    if (!nonce) {
+        throw new APIError("UNAUTHORIZED", {
+            message: "Invalid or expired nonce",
+            code: "INVALID_NONCE",
+        });
+    }
+
+    const id = await adapter.transaction(async (trx) => {
+        const record = await trx.findOne<NonceRecord>({
+            model: "farcasterNonce",
+            where: [{ field: "nonce", value: nonce }],
+        });
+
+        if (
+            !record ||
+            record.channelToken !== channelToken ||
+            (sessionId !== undefined && record.sessionId !== sessionId) ||
+            new Date(record.expiresAt).getTime() < Date.now()
+        ) {
+            throw new APIError("UNAUTHORIZED", {
+                message: "Invalid or expired nonce",
+                code: "INVALID_NONCE",
+            });
+        }
+
+        if (record.consumedAt) {
+            throw new APIError("UNAUTHORIZED", {
+                message: "Nonce has already been used",
+                code: "NONCE_ALREADY_USED",
+            });
+        }
+
+        // Guard on consumedAt so a concurrent request cannot consume the same nonce
+        const consumed = await trx.update<NonceRecord>({
+            model: "farcasterNonce",
+            where: [
+                { field: "id", value: record.id },
+                { field: "consumedAt", value: null },
+            ],
+            update: { consumedAt: new Date() },
+        });
+
+        if (!consumed) {
+            throw new APIError("UNAUTHORIZED", {
+                message: "Nonce has already been used",
+                code: "NONCE_ALREADY_USED",
+            });
+        }
+        return record.id;
+    });
+
+    return async () => {
+        await adapter.update({
+            model: "farcasterNonce",
+            where: [{ field: "id", value: id }],
+            update: { consumedAt: null },
+        });
+    };
 }
@@ -2,46 +2,157 @@
  * Core SIWF (Sign In With Farcaster) types for OAuth-like authentication
  * Uses @farcaster/auth-client for channel-based authentication flow
  */
+import type { FarcasterCookieOptions, FarcasterSharedOptions } from "../types";
 
 /**
- * Plugin options for Farcaster Core authentication
- * Uses channel-based SIWF flow for regular web pages (OAuth-like)
+ * Options of the SIWF (Sign In With Farcaster) flow
+ * Passed as `siwf` to the combined `farcasterAuth` plugin
  */
-export interface FarcasterCorePluginOptions {
+export interface FarcasterSIWFOptions {
     /**
-     * The domain of your application (e.g., "myapp.com" or "https://myapp.com")
-     * Used for SIWE message verification
-     */
-    domain: string;
-    /**
-     * The SIWE URI for your application login page
+     * The SIWE URI for your application login page, or one URI per allowed domain
+     * The URI whose host matches the request's domain is used, falling back to the first entry
      * This appears in the SIWE message shown to users
      */
-    siweUri: string;
+    siweUri: string | string[];
     /**
      * Relay server URL for Farcaster Auth
      * @default 'https://relay.farcaster.xyz'
      */
     relay?: string;
     /**
-     * Optional function to resolve additional user data from Farcaster
-     * @param fid - The Farcaster ID
-     * @returns Additional user data to store
+     * Optimism RPC URL used to check that the signer of a SIWF message owns the FID
+     * Defaults to viem's public endpoint, which isn't meant for production
      */
-    resolveUserData?: (fid: number) => Promise<{
-        name?: string;
-        email?: string;
-        image?: string;
-    }>;
+    rpcUrl?: string;
     /**
-     * Cookie configuration options
+     * Run a built-in relay instead of delegating to `relay`.
+     * Channels are stored in the database or Better Auth's `secondaryStorage`, and the
+     * relay protocol is served under `/farcaster/relay/v1/*`.
      */
-    cookieOptions?: {
-        secure?: boolean;
-        sameSite?: "strict" | "lax" | "none";
-        httpOnly?: boolean;
-        path?: string;
+    embeddedRelay?: EmbeddedRelayOptions;
+    /**
+     * How long a server-issued SIWF nonce stays valid, in seconds.
+     * Nonces are stored in the `farcasterNonce` table and can only be used once.
+     * @default 600 (10 minutes)
+     */
+    nonceExpiresIn?: number;
+    /**
+     * Where the signed SIWF payload comes from when verifying or linking.
+     * - `"client"`: the browser posts `message`, `signature`, `fid` and profile fields it read from the channel
+     * - `"server"`: the browser only posts the `channelToken`; the server reads the completed channel
+     *   from the relay itself and ignores any client-posted signature or profile fields
+     * @default "client"
+     */
+    verifyMode?: "client" | "server";
+    /**
+     * Checks applied to the signed SIWE message beyond signature, domain and nonce.
+     * A failing check is rejected with a `MESSAGE_*` error code.
+     */
+    messagePolicy?: SIWFMessagePolicy;
+    /**
+     * Settings for the `/farcaster/channel-events` Server-Sent Events stream
+     */
+    channelEvents?: {
+        /**
+         * How often the server checks the relay for a status change, in milliseconds
+         * @default 1000
+         */
+        interval?: number;
+        /**
+         * How long a stream stays open before sending a `timeout` event, in milliseconds
+         * @default 300000 (5 minutes)
+         */
+        timeout?: number;
     };
+    /**
+     * Cookie configuration options
+     * In the combined `farcasterAuth` plugin, merged over the shared `cookieOptions`
+     */
+    cookieOptions?: FarcasterCookieOptions;
+}
+
+/**
+ * Plugin options for Farcaster Core authentication
+ * Uses channel-based SIWF flow for regular web pages (OAuth-like)
+ */
+export interface FarcasterCorePluginOptions extends FarcasterSharedOptions, FarcasterSIWFOptions {}
+
+/**
+ * Policy for validating the fields of a signed SIWE message
+ */
+export interface SIWFMessagePolicy {
+    /**
+     * Require the message `URI` to equal the plugin's `siweUri` for the request's domain
+     * @default true
+     */
+    checkUri?: boolean;
+    /**
+     * Maximum age of the message's `Issued At`, in seconds. Set to 0 to disable.
+     * @default 600 (10 minutes)
+     */
+    maxAge?: number;
+    /**
+     * Allowed clock skew for `Issued At`, `Expiration Time` and `Not Before`, in seconds
+     * @default 60
+     */
+    clockSkew?: number;
+    /**
+     * Reject messages without an `Expiration Time`
+     * @default false
+     */
+    requireExpirationTime?: boolean;
+    /**
+     * Chain IDs accepted in the message. An empty array allows any chain.
+     * @default [10] (OP Mainnet)
+     */
+    allowedChainIds?: number[];
+    /**
+     * Require a `farcaster://fid/<fid>` resource matching the signing FID
+     * @default true
+     */
+    requireFidResource?: boolean;
+}
+
+/**
+ * Error codes returned when a SIWE message fails the message policy
+ */
+export type SIWFMessagePolicyErrorCode =
+    | 'MESSAGE_MALFORMED'
+    | 'MESSAGE_URI_MISMATCH'
+    | 'MESSAGE_ISSUED_IN_FUTURE'
+    | 'MESSAGE_TOO_OLD'
+    | 'MESSAGE_EXPIRATION_REQUIRED'
+    | 'MESSAGE_EXPIRED'
+    | 'MESSAGE_NOT_YET_VALID'
+    | 'MESSAGE_CHAIN_ID_NOT_ALLOWED'
+    | 'MESSAGE_FID_RESOURCE_MISMATCH';
+
+/**
+ * Options for the embedded SIWF relay
+ */
+export interface EmbeddedRelayOptions {
+    /**
+     * Keys accepted in the `X-Farcaster-Auth-Relay-Key` header when a Farcaster client
+     * posts the signed message to `/farcaster/relay/v1/channel/authenticate`
+     */
+    authKeys: string[];
+    /**
+     * Where channels are stored. `"secondaryStorage"` requires Better Auth's `secondaryStorage`.
+     * @default "database"
+     */
+    storage?: "database" | "secondaryStorage";
+    /**
+     * Channel lifetime in seconds
+     * @default 300 (5 minutes)
+     */
+    channelTtl?: number;
+    /**
+     * Base URL of the sign-in link shown as QR code/deeplink. Channel parameters are appended as query string.
+     * Must open a Farcaster client that posts to this relay's `authenticate` endpoint; the hosted
+     * `https://farcaster.xyz/~/siwf` completes channels on relay.farcaster.xyz instead
+     */
+    connectUrl: string;
 }
 
 /**
@@ -57,13 +168,46 @@ export interface SIWFChannelResponse {
      */
     url: string;
     /**
-     * Nonce used in the SIWE message
+     * Server-issued nonce embedded in the SIWE message
      */
     nonce: string;
 }
 
+/**
+ * Status of a SIWF channel, from the relay
+ * The signed message, signature and profile fields are set once the user approves (`state: "completed"`)
+ */
+export interface SIWFChannelStatusResponse {
+    state: "pending" | "completed";
+    nonce: string;
+    url?: string;
+    message?: string;
+    signature?: `0x${string}`;
+    authMethod?: "custody" | "authAddress";
+    fid?: number;
+    username?: string;
+    displayName?: string;
+    pfpUrl?: string;
+    bio?: string;
+    custody?: `0x${string}`;
+    verifications?: string[];
+    /**
+     * Parameters of the SIWE message the user signs
+     */
+    signatureParams?: {
+        siweUri: string;
+        domain: string;
+        nonce?: string;
+        notBefore?: string;
+        expirationTime?: string;
+        requestId?: string;
+        redirectUrl?: string;
+    };
+}
+
 /**
  * Parameters for verifying a SIWF signature
+ * With `verifyMode: "server"` only `channelToken` is needed; everything else is read from the relay.
  */
 export interface SIWFVerifyParams {
     /**
@@ -73,15 +217,15 @@ export interface SIWFVerifyParams {
     /**
      * The SIWE message that was signed
      */
-    message: string;
+    message?: string;
     /**
      * The signature from the user's wallet
      */
-    signature: `0x${string}`;
+    signature?: `0x${string}`;
     /**
      * The user's Farcaster ID
      */
-    fid: number;
+    fid?: number;
     /**
      * The user's Farcaster username
      */
@@ -98,12 +242,20 @@ export interface SIWFVerifyParams {
      * The user's bio
      */
     bio?: string;
+    /**
+     * The FID's custody address
+     */
+    custody?: string;
+    /**
+     * Addresses verified by the FID
+     */
+    verifications?: string[];
 }
 
 /**
- * Response from verifying a SIWF signature
+ * Response from verifying a SIWF signature, with the new session
  */
-export interface SIWFVerifyResponse {
+export interface SIWFVerifySessionResponse {
     /**
      * Whether the verification was successful
      */
@@ -116,4 +268,13 @@ export interface SIWFVerifyResponse {
      * The session
      */
     session: import('better-auth').Session;
+    /**
+     * With `emailStrategy: { type: "prompt" }`, true while the user has no real email yet
+     */
+    emailRequired?: boolean;
 }
+
+/**
+ * Response from verifying a SIWF signature: the session, or a redirect when a `beforeSignIn` hook redirects
+ */
+export type SIWFVerifyResponse = SIWFVerifySessionResponse | import('../types').FarcasterRedirectResponse;
@@ -0,0 +1,108 @@
+/**
+ * Domain allowlist shared by the Miniapp and Core plugins
+ * Resolves which of the configured domains a request belongs to, so the Quick Auth
+ * audience and the SIWF message domain are checked against the requesting origin
+ */
+import { APIError } from "better-auth/api";
+
+/**
+ * Callback that returns the domain (or origin URL) a request should be verified against
+ * Return `null`/`undefined` to fall back to the request's Origin header
+ */
+export type ResolveDomainFn = (request: Request | undefined) => string | null | undefined | Promise<string | null | undefined>;
+
+/**
+ * Normalize a URL or host into an authority (`host` or `host:port`)
+ * Default ports (80/443) are dropped so `https://example.com:443` equals `example.com`
+ * @param url - URL string (e.g., "https://example.com:3000/login" or "example.com")
+ */
+export function getAuthority(url: string): string {
+    const value = url.trim();
+    const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value.replace(/^\/\//, "")}`;
+    // Wildcard patterns are not valid URLs, so parse them without the leading "*."
+    const isWildcard = /^https:\/\/\*\./.test(withScheme);
+
+    try {
+        const parsed = new URL(isWildcard ? withScheme.replace("*.", "") : withScheme);
+        const port = parsed.port === "*" ? "*" : parsed.port;
+        const authority = port ? `${parsed.hostname}:${port}` : parsed.hostname;
+        return isWildcard ? `*.${authority}` : authority;
+    } catch {
+        // Fall back to manual extraction (e.g. "localhost:*")
+        return value.replace(/^([a-z][a-z0-9+.-]*:)?\/\//i, "").split("/")[0].toLowerCase();
+    }
+}
+
+/**
+ * Check an authority against an allowlist pattern
+ * - `localhost` matches any port, as `localhost` and `localhost:*` are equivalent
+ * - `localhost:3000` matches only port 3000
+ * - `*.example.com` matches any subdomain of `example.com` (not the apex)
+ */
+export function matchesDomain(authority: string, pattern: string): boolean {
+    const [host, port = ""] = splitAuthority(authority);
+    const [patternHost, patternPort = ""] = splitAuthority(pattern);
+
+    // Port-less patterns keep matching any port, as before ports were part of the domain
+    if (patternPort && patternPort !== "*" && patternPort !== port) {
+        return false;
+    }
+
+    if (patternHost.startsWith("*.")) {
+        const suffix = patternHost.slice(1);
+        return host.endsWith(suffix) && host.length > suffix.length;
+    }
+
+    return host === patternHost;
+}
+
+function splitAuthority(authority: string): [string, string?] {
+    const index = authority.lastIndexOf(":");
+    // Bracketed IPv6 hosts contain colons; only split on a trailing port
+    if (index === -1 || authority.endsWith("]")) {
+        return [authority.toLowerCase()];
+    }
+    return [authority.slice(0, index).toLowerCase(), authority.slice(index + 1)];
+}
+
+/**
+ * Create a resolver that picks the allowed domain for a request
+ * @param options.domain - One domain or an allowlist (exact, `host:port`, `host:*` or `*.example.com`)
+ * @param options.resolveDomain - Optional callback returning the domain for a request
+ * @returns Function returning the authority to verify against, or throwing FORBIDDEN if it isn't allowed
+ */
+export function createDomainResolver(options: {
+    domain: string | string[];
+    resolveDomain?: ResolveDomainFn;
+}) {
+    const patterns = (Array.isArray(options.domain) ? options.domain : [options.domain]).map(getAuthority);
+    // Used when a request carries no origin (e.g. server-side auth.api calls)
+    const defaultDomain = patterns.find((pattern) => !pattern.includes("*"));
+
+    return async (request: Request | undefined, headers?: Headers): Promise<string> => {
+        const requestHeaders = headers || request?.headers;
+        const candidate =
+            (options.resolveDomain ? await options.resolveDomain(request) : undefined) ||
+            requestHeaders?.get("origin") ||
+            requestHeaders?.get("referer") ||
+            defaultDomain;
+
+        if (!candidate) {
+            throw new APIError("BAD_REQUEST", {
+                message: "Could not determine the request domain",
+                code: "DOMAIN_NOT_ALLOWED",
+            });
+        }
+
+        const authority = getAuthority(candidate);
+
+        if (!patterns.some((pattern) => matchesDomain(authority, pattern))) {
+            throw new APIError("FORBIDDEN", {
+                message: "Domain is not allowed",
+                code: "DOMAIN_NOT_ALLOWED",
+            });
+        }
+
+        return authority;
+    };
+}
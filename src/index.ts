@@ -1,26 +1,97 @@
 // Server plugin exports (server-side only)
-// This is the root entry point for backward compatibility
-// For new code, import from 'better-auth-farcaster-plugin/miniapp' or 'better-auth-farcaster-plugin/core'
+// This is the root entry point; it also keeps the v4 exports for backward compatibility
+// The per-flow plugins are also available from 'better-auth-farcaster-plugin/miniapp' and 'better-auth-farcaster-plugin/core'
 
-// Re-export miniapp server plugin as default for backward compatibility
-export { farcasterMiniappAuth as farcasterAuth, farcasterMiniappAuth, getFarcasterMiniappApi } from './miniapp';
+// Combined plugin - called without `miniapp` or `siwf`, it behaves like farcasterMiniappAuth
+export { farcasterAuth } from './server';
+export type {
+    FarcasterAuthPlugin,
+    FarcasterAuthPluginOptions,
+    FarcasterAuthPluginOptions as FarcasterPluginOptions,
+} from './server';
+
+// Per-flow plugins and flow options
+export { farcasterMiniappAuth, getFarcasterMiniappApi } from './miniapp';
 export type {
-    FarcasterMiniappPluginOptions as FarcasterPluginOptions,
     FarcasterMiniappPluginOptions,
+    FarcasterMiniappFlowOptions,
     FarcasterMiniappServerActions,
     WithFarcasterMiniapp,
 } from './miniapp';
+export { verifyQuickAuthRequest, requireQuickAuth } from './miniapp';
+export type { QuickAuthClaims, QuickAuthContext, QuickAuthOptions, QuickAuthRequestOptions } from './miniapp';
+export type {
+    FarcasterMiniappNotificationOptions,
+    FarcasterNotificationToken,
+    FarcasterSendNotificationParams,
+    FarcasterSendNotificationResult,
+} from './miniapp';
+export { farcasterCoreAuth, getFarcasterCoreApi } from './core';
+export type {
+    FarcasterCorePluginOptions,
+    FarcasterSIWFOptions,
+    FarcasterCoreServerActions,
+    WithFarcasterCore,
+} from './core';
+
+// Account table and user ID maintenance
+export { repairFarcasterAccounts } from './accounts';
+export type { RepairFarcasterAccountsOptions, RepairFarcasterAccountsResult } from './accounts';
+export { migrateLegacyUserIds } from './users';
+export type { MigrateLegacyUserIdsOptions, MigrateLegacyUserIdsResult } from './users';
+
+// Access policy rules
+export { requireMinFidAge, requireMinFollowers, requireChannelMember } from './access';
+
+// Audit log
+export { withFarcasterRateLimitAudit } from './audit';
+
+// Webhook signature verification for receivers
+export { verifyFarcasterWebhook } from './webhooks';
+
+// Domain allowlist callback type
+export type { ResolveDomainFn } from './domain';
 
 // Re-export shared types
 export type {
     FarcasterUser,
     FarcasterSignInResponse,
+    FarcasterSessionResponse,
     FarcasterProfileResponse,
     FarcasterLinkResponse,
+    FarcasterAttachEmailResponse,
+    FarcasterRedirectResponse,
+    FarcasterProfile,
+    FarcasterProfileData,
+    FarcasterProfileField,
+    FarcasterProfileSyncOptions,
+    FarcasterProfileSyncPolicy,
+    FarcasterLaunchContext,
+    FarcasterEmailStrategy,
+    FarcasterHooks,
+    FarcasterHookContext,
+    FarcasterBeforeSignInContext,
+    FarcasterBeforeSignInResult,
+    FarcasterAccessPolicy,
+    FarcasterAccessRule,
+    FarcasterAccessContext,
+    FarcasterAccessDecision,
+    FarcasterAuditLogOptions,
+    FarcasterAuthEvent,
+    FarcasterAuthEventType,
+    FarcasterAuthEventsResponse,
+    FarcasterWebhookOptions,
+    FarcasterWebhookEndpoint,
+    FarcasterWebhookEvent,
+    FarcasterWebhookEventType,
+    FarcasterAuthFlow,
+    FarcasterCookieOptions,
+    FarcasterSharedOptions,
+    GenerateUserIdFn,
 } from './types';
 
 // NOTE: Client exports are now in separate entry points to avoid bundling server-side code
-// Import from 'better-auth-farcaster-plugin/client' for backward compatibility (miniapp client)
+// Import from 'better-auth-farcaster-plugin/client' for the combined client (farcasterAuthClient)
 // Import from 'better-auth-farcaster-plugin/miniapp/client' for miniapp client
 // Import from 'better-auth-farcaster-plugin/core/client' for core (OAuth-like) client
 //
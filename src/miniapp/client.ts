@@ -1,43 +1,141 @@
-import type { BetterAuthClientPlugin } from "better-auth/client";
-import type {
-    FarcasterUser,
-    FarcasterSignInResponse,
-    FarcasterProfileResponse,
-    FarcasterLinkResponse,
-} from "../types";
+import type { BetterAuthClientOptions, BetterAuthClientPlugin, InferRoutes } from "better-auth/client";
+import type { farcasterMiniappAuth } from "./server";
+
+/**
+ * Actions of the Miniapp client that don't call an endpoint
+ */
+export interface FarcasterMiniappClientActions {
+    /**
+     * Get the stored bearer session token
+     * @returns The token, or null if none is stored or `bearerToken` is off
+     */
+    getSessionToken: () => string | null;
+    /**
+     * Store or clear the bearer session token (does nothing if `bearerToken` is off)
+     * @param token - The token, or null to clear it
+     */
+    setSessionToken: (token: string | null) => void;
+}
 
 /**
  * Type for Farcaster Miniapp client actions
- * Use this type for proper autocomplete when Better Auth's automatic
- * type inference doesn't work with external plugins.
+ * The endpoint methods are inferred from `farcasterMiniappAuth`, with their exact request and response types.
  * 
  * @example
  * ```ts
  * import { createAuthClient } from "better-auth/react";
- * import { farcasterMiniappClient, type FarcasterMiniappActions } from "better-auth-farcaster-plugin/miniapp/client";
+ * import { farcasterMiniappClient } from "better-auth-farcaster-plugin/miniapp/client";
  * 
- * const client = createAuthClient({
+ * export const authClient = createAuthClient({
  *   baseURL: "http://localhost:3000",
  *   plugins: [farcasterMiniappClient()],
  * });
  * 
- * // Export with proper types
- * export const authClient = client as typeof client & { farcasterMiniapp: FarcasterMiniappActions };
- * 
  * // Now you have proper autocomplete!
  * const { data } = await authClient.farcasterMiniapp.signIn({ token: "..." });
  * ```
  */
-export interface FarcasterMiniappActions {
-    signIn: (data: { token: string }) => Promise<{ data: FarcasterSignInResponse | null; error: any }>;
-    link: (data: { token: string }) => Promise<{ data: FarcasterLinkResponse | null; error: any }>;
-    unlink: () => Promise<{ data: FarcasterLinkResponse | null; error: any }>;
-    profile: () => Promise<{ data: FarcasterProfileResponse | null; error: any }>;
+export type FarcasterMiniappActions =
+    InferRoutes<ReturnType<typeof farcasterMiniappAuth>["endpoints"], BetterAuthClientOptions>["farcasterMiniapp"]
+    & FarcasterMiniappClientActions;
+
+/**
+ * Where the client keeps the bearer session token
+ */
+export interface FarcasterTokenStorage {
+    get: () => string | null;
+    set: (token: string | null) => void;
+}
+
+/**
+ * Options for the Farcaster Miniapp client plugin
+ */
+export interface FarcasterMiniappClientOptions {
+    /**
+     * Store the session token returned by sign-in and send it as `Authorization: Bearer` on every request,
+     * for miniapps whose session cookie is blocked in the Farcaster client's iframe or webview
+     * Requires the server's `bearerToken` option. Pass `true` to keep the token in localStorage
+     * (in memory where localStorage is unavailable), or your own storage
+     * @default false
+     */
+    bearerToken?: boolean | { storage?: FarcasterTokenStorage };
+}
+
+const TOKEN_STORAGE_KEY = "better-auth-farcaster.session-token";
+
+/**
+ * Keep the token in localStorage, falling back to memory where localStorage is missing or blocked
+ */
+function createDefaultTokenStorage(): FarcasterTokenStorage {
+    let memoryToken: string | null = null;
+    return {
+        get: () => {
+            try {
+                return localStorage.getItem(TOKEN_STORAGE_KEY) ?? memoryToken;
+            } catch {
+                return memoryToken;
+            }
+        },
+        set: (token) => {
+            memoryToken = token;
+            try {
+                if (token) {
+                    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+                } else {
+                    localStorage.removeItem(TOKEN_STORAGE_KEY);
+                }
+            } catch {
+                // Memory only
+            }
+        },
+    };
+}
+
+/**
+ * Resolve the `bearerToken` client option to a token storage, or null when it is off
+ */
+export function resolveTokenStorage(options: FarcasterMiniappClientOptions = {}): FarcasterTokenStorage | null {
+    if (!options.bearerToken) {
+        return null;
+    }
+    return (options.bearerToken !== true && options.bearerToken.storage) || createDefaultTokenStorage();
+}
+
+/**
+ * Fetch plugin that sends the stored token as `Authorization: Bearer` and keeps it up to date:
+ * set from the Miniapp sign-in response or the `set-auth-token` header, cleared on sign-out
+ */
+export function createBearerTokenFetchPlugin(storage: FarcasterTokenStorage) {
+    return {
+        id: "farcaster-bearer-token",
+        name: "Farcaster bearer token",
+        hooks: {
+            onRequest: (context: { headers: Headers }) => {
+                const token = storage.get();
+                if (token && !context.headers.has("authorization")) {
+                    context.headers.set("authorization", `Bearer ${token}`);
+                }
+            },
+            onSuccess: (context: { data: any; response: Response; request: { url: URL | string } }) => {
+                const path = String(context.request.url).split("?")[0];
+                if (path.endsWith("/sign-out")) {
+                    storage.set(null);
+                    return;
+                }
+                const isSignIn = path.endsWith("/farcaster-miniapp/sign-in") || path.endsWith("/farcaster-miniapp/sign-in-with-message");
+                const token = (isSignIn && context.data?.token)
+                    || context.response.headers.get("set-auth-token");
+                if (token) {
+                    storage.set(token);
+                }
+            },
+        },
+    };
 }
 
 /**
  * Helper function to get typed Farcaster Miniapp actions from any authClient.
- * Use this to get proper autocomplete when Better Auth's type inference fails.
+ * Use it where the auth client isn't typed, e.g. passed around as `any`.
  * 
  * @param authClient - Your Better Auth client instance (typed as any)
  * @returns Typed FarcasterMiniappActions object
@@ -63,32 +161,57 @@ export function getFarcasterMiniapp(authClient: any): FarcasterMiniappActions {
     return authClient.farcasterMiniapp as FarcasterMiniappActions;
 }
 
+/**
+ * Create the Farcaster Miniapp client actions that don't call an endpoint
+ * The endpoint methods come from Better Auth's path proxy, typed through `$InferServerPlugin`.
+ * Used by the plugin's own client and the combined `farcasterAuthClient`
+ */
+export function createFarcasterMiniappActions(
+    tokenStorage: FarcasterTokenStorage | null = null
+): FarcasterMiniappClientActions {
+    return {
+        getSessionToken: () => tokenStorage?.get() ?? null,
+        setSessionToken: (token: string | null) => tokenStorage?.set(token),
+    };
+}
+
+/**
+ * HTTP methods of the Farcaster Miniapp endpoints, for Better Auth's path proxy
+ */
+export const farcasterMiniappPathMethods = {
+    "/farcaster-miniapp/sign-in": "POST",
+    "/farcaster-miniapp/sign-in-with-message": "POST",
+    "/farcaster-miniapp/link": "POST",
+    "/farcaster-miniapp/unlink": "POST",
+    "/farcaster-miniapp/attach-email": "POST",
+} as const;
+
 /**
  * Farcaster Miniapp authentication client plugin for Better Auth
  * 
- * Note: Better Auth's automatic type inference ($InferServerPlugin) does not work
- * reliably with external npm packages. Use the FarcasterMiniappActions type or
- * getFarcasterMiniapp() helper for proper TypeScript autocomplete.
+ * The client infers each method's request and response types from `farcasterMiniappAuth`,
+ * so `authClient.farcasterMiniapp.*` is typed without a cast.
  * 
  * Methods available on the client:
  * - `authClient.farcasterMiniapp.signIn({ token })` - Sign in with Quick Auth token
+ * - `authClient.farcasterMiniapp.nonce()` / `signInWithMessage({ message, signature })` - Sign in with a SIWF message
  * - `authClient.farcasterMiniapp.link({ token })` - Link Farcaster to existing account
  * - `authClient.farcasterMiniapp.unlink()` - Unlink Farcaster from account
  * - `authClient.farcasterMiniapp.profile()` - Get Farcaster profile for current user
  * 
+ * With `bearerToken: true` (and the server's `bearerToken` option), the session token is stored
+ * and sent as `Authorization: Bearer`, so auth works where the session cookie is blocked.
+ * 
  * @example
  * ```ts
  * import { createAuthClient } from "better-auth/react";
- * import { farcasterMiniappClient, type FarcasterMiniappActions } from "better-auth-farcaster-plugin/miniapp/client";
+ * import { farcasterMiniappClient } from "better-auth-farcaster-plugin/miniapp/client";
  * 
- * const client = createAuthClient({
+ * export const authClient = createAuthClient({
  *   baseURL: "http://localhost:3000",
  *   plugins: [farcasterMiniappClient()],
  * });
  * 
- * // Export with proper types
- * export const authClient = client as typeof client & { farcasterMiniapp: FarcasterMiniappActions };
- * 
  * // Sign in with Farcaster Quick Auth token
  * const { data, error } = await authClient.farcasterMiniapp.signIn({ token });
  * if (data) {
@@ -96,57 +219,17 @@ export function getFarcasterMiniapp(authClient: any): FarcasterMiniappActions {
  * }
  * ```
  */
-export const farcasterMiniappClient = () => {
+export const farcasterMiniappClient = (options?: FarcasterMiniappClientOptions) => {
+    const tokenStorage = resolveTokenStorage(options);
+
     return {
         id: "farcaster-miniapp",
-        getActions: ($fetch: any): FarcasterMiniappActions => ({
-            /**
-             * Sign in with a Farcaster Quick Auth token
-             * @param data - Object containing the Farcaster Quick Auth token
-             * @returns The authenticated user and session
-             */
-            signIn: async (data: { token: string }) => {
-                return $fetch("/farcaster-miniapp/sign-in", {
-                    method: "POST",
-                    body: data,
-                });
-            },
-            /**
-             * Link the current authenticated account to a Farcaster FID
-             * @param data - Object containing the Farcaster Quick Auth token
-             * @returns Success status and updated user
-             */
-            link: async (data: { token: string }) => {
-                return $fetch("/farcaster-miniapp/link", {
-                    method: "POST",
-                    body: data,
-                });
-            },
-            /**
-             * Unlink Farcaster from the current authenticated account
-             * @returns Success status and updated user
-             */
-            unlink: async () => {
-                return $fetch("/farcaster-miniapp/unlink", {
-                    method: "POST",
-                    body: {},
-                });
-            },
-            /**
-             * Get the Farcaster profile for the current authenticated user
-             * @returns The user's Farcaster FID and profile data
-             */
-            profile: async () => {
-                return $fetch("/farcaster-miniapp/profile", {
-                    method: "GET",
-                });
-            },
+        getActions: () => ({
+            farcasterMiniapp: createFarcasterMiniappActions(tokenStorage),
         }),
-        pathMethods: {
-            "/farcaster-miniapp/sign-in": "POST",
-            "/farcaster-miniapp/link": "POST",
-            "/farcaster-miniapp/unlink": "POST",
-        },
+        $InferServerPlugin: {} as ReturnType<typeof farcasterMiniappAuth>,
+        pathMethods: farcasterMiniappPathMethods,
+        fetchPlugins: tokenStorage ? [createBearerTokenFetchPlugin(tokenStorage)] : [],
     } satisfies BetterAuthClientPlugin;
 };
 
@@ -154,6 +237,11 @@ export const farcasterMiniappClient = () => {
 export type {
     FarcasterUser,
     FarcasterSignInResponse,
+    FarcasterSessionResponse,
     FarcasterProfileResponse,
+    FarcasterProfile,
+    FarcasterProfileData,
     FarcasterLinkResponse,
+    FarcasterAttachEmailResponse,
+    FarcasterRedirectResponse,
 } from "../types";
@@ -3,18 +3,77 @@ export { farcasterMiniappAuth, farcasterMiniappAuth as farcasterAuth, getFarcast
 export type {
     FarcasterMiniappPluginOptions,
     FarcasterMiniappPluginOptions as FarcasterPluginOptions,
+    FarcasterMiniappFlowOptions,
     FarcasterMiniappServerActions,
     WithFarcasterMiniapp,
 } from './server';
 
+// Stateless Quick Auth verification for API routes
+export { verifyQuickAuthRequest, requireQuickAuth } from './quick-auth';
+export type { QuickAuthClaims, QuickAuthContext, QuickAuthOptions, QuickAuthRequestOptions } from './quick-auth';
+
+// Miniapp webhook events and notification tokens
+export type {
+    FarcasterMiniappNotificationOptions,
+    FarcasterNotificationToken,
+    FarcasterSendNotificationParams,
+    FarcasterSendNotificationResult,
+} from './notifications';
+
 // Miniapp client plugin exports
 export { farcasterMiniappClient, getFarcasterMiniapp } from './client';
-export type { FarcasterMiniappActions } from './client';
+export type { FarcasterMiniappActions, FarcasterMiniappClientOptions, FarcasterTokenStorage } from './client';
+
+// Account table and user ID maintenance
+export { repairFarcasterAccounts } from '../accounts';
+export type { RepairFarcasterAccountsOptions, RepairFarcasterAccountsResult } from '../accounts';
+export { migrateLegacyUserIds } from '../users';
+export type { MigrateLegacyUserIdsOptions, MigrateLegacyUserIdsResult } from '../users';
+
+// Access policy rules
+export { requireMinFidAge, requireMinFollowers, requireChannelMember } from '../access';
+
+// Audit log
+export { withFarcasterRateLimitAudit } from '../audit';
+
+// Webhook signature verification for receivers
+export { verifyFarcasterWebhook } from '../webhooks';
+
+// Domain allowlist callback type
+export type { ResolveDomainFn } from '../domain';
 
 // Re-export shared types
 export type {
     FarcasterUser,
     FarcasterSignInResponse,
+    FarcasterSessionResponse,
     FarcasterProfileResponse,
     FarcasterLinkResponse,
+    FarcasterAttachEmailResponse,
+    FarcasterRedirectResponse,
+    FarcasterProfile,
+    FarcasterProfileData,
+    FarcasterProfileField,
+    FarcasterProfileSyncOptions,
+    FarcasterProfileSyncPolicy,
+    FarcasterLaunchContext,
+    FarcasterEmailStrategy,
+    FarcasterHooks,
+    FarcasterHookContext,
+    FarcasterBeforeSignInContext,
+    FarcasterBeforeSignInResult,
+    FarcasterAccessPolicy,
+    FarcasterAccessRule,
+    FarcasterAccessContext,
+    FarcasterAccessDecision,
+    FarcasterAuditLogOptions,
+    FarcasterAuthEvent,
+    FarcasterAuthEventType,
+    FarcasterAuthEventsResponse,
+    FarcasterWebhookOptions,
+    FarcasterWebhookEndpoint,
+    FarcasterWebhookEvent,
+    FarcasterWebhookEventType,
+    FarcasterAuthFlow,
+    GenerateUserIdFn,
 } from '../types';
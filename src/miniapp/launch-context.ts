@@ -0,0 +1,64 @@
+/**
+ * Miniapp launch context
+ * Keeps which Farcaster client, platform and launch location a miniapp session came from,
+ * taken from the SDK context sent with sign-in, as fields of the session
+ */
+import type { BetterAuthPlugin } from "better-auth";
+import { z } from "zod";
+import type { FarcasterLaunchContext } from "../types";
+
+/**
+ * Database schema for the launch context fields of the session, added when `launchContext` is on
+ */
+export const farcasterLaunchContextSchema = {
+    session: {
+        fields: {
+            farcasterClientFid: { type: "number", required: false },
+            farcasterPlatformType: { type: "string", required: false },
+            farcasterLaunchLocation: { type: "string", required: false },
+        },
+    },
+} satisfies BetterAuthPlugin["schema"];
+
+/**
+ * The parts of the miniapp SDK's `context` that are kept; unknown keys are dropped,
+ * and a context that doesn't match is ignored rather than failing sign-in
+ */
+export const launchContextSchema = z.object({
+    client: z.object({
+        clientFid: z.number().int().nonnegative(),
+        platformType: z.enum(["web", "mobile"]).optional(),
+    }),
+    location: z.object({
+        // e.g. "cast_embed", "notification", "launcher"; new types are accepted as long as they look like one
+        type: z.string().regex(/^[a-z_]{1,32}$/),
+    }).nullish(),
+}).optional().catch(undefined);
+
+/**
+ * Session fields to create the session with
+ */
+export function toLaunchContextFields(context: z.infer<typeof launchContextSchema>) {
+    if (!context) {
+        return undefined;
+    }
+    return {
+        farcasterClientFid: context.client.clientFid,
+        farcasterPlatformType: context.client.platformType ?? null,
+        farcasterLaunchLocation: context.location?.type ?? null,
+    };
+}
+
+/**
+ * Read the launch context of a session, or null if it has none
+ */
+export function getLaunchContext(session: Record<string, unknown>): FarcasterLaunchContext | null {
+    if (typeof session.farcasterClientFid !== "number") {
+        return null;
+    }
+    return {
+        clientFid: session.farcasterClientFid,
+        platformType: (session.farcasterPlatformType as FarcasterLaunchContext["platformType"]) ?? null,
+        location: (session.farcasterLaunchLocation as string | null | undefined) ?? null,
+    };
+}
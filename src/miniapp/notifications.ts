@@ -0,0 +1,581 @@
+/**
+ * Miniapp notification tokens
+ * Receives the signed webhook events Farcaster clients send when a user adds or removes the miniapp
+ * or toggles its notifications, keeps each FID's notification tokens in the `farcasterNotificationToken` model,
+ * and sends notifications to them
+ */
+import type { AuthContext, BetterAuthPlugin, Where } from "better-auth";
+import { APIError, createAuthEndpoint } from "better-auth/api";
+import { z } from "zod";
+
+type Adapter = AuthContext["adapter"];
+
+const TOKEN_MODEL = "farcasterNotificationToken";
+const DELIVERY_MODEL = "farcasterNotificationDelivery";
+
+// Farcaster clients accept at most 100 tokens per request
+const MAX_TOKENS_PER_REQUEST = 100;
+
+// Rows read per query, and values per `in` filter
+const QUERY_BATCH_SIZE = 100;
+
+/**
+ * Options for miniapp notifications
+ */
+export interface FarcasterMiniappNotificationOptions {
+    /**
+     * Check that an app key (an Ed25519 public key, hex encoded) is an active signer of the FID,
+     * e.g. with a hub's `onChainSignersByFid` or Neynar's `verifyAppKeyWithNeynar`
+     * Webhook events signed by any other key are rejected
+     */
+    verifyAppKey: (fid: number, appKey: string) => Promise<boolean>;
+}
+
+/**
+ * Notification token of a user in one Farcaster client
+ */
+export interface FarcasterNotificationToken {
+    id: string;
+    fid: number;
+    /**
+     * The client's notification endpoint
+     */
+    url: string;
+    token: string;
+    enabled: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Notification to send with the `sendNotification` server action
+ * Pass `fids`, `userIds` or both; users without an FID are ignored
+ */
+export interface FarcasterSendNotificationParams {
+    fids?: number[];
+    userIds?: string[];
+    /**
+     * Stable ID of the notification (max 128 characters)
+     * Tokens already sent a notification with this ID are skipped, so retrying is safe
+     */
+    notificationId: string;
+    /**
+     * Title (max 32 characters)
+     */
+    title: string;
+    /**
+     * Body (max 128 characters)
+     */
+    body: string;
+    /**
+     * URL opened when the notification is tapped, on your miniapp's domain
+     */
+    targetUrl: string;
+}
+
+/**
+ * Result of the `sendNotification` server action, as FIDs
+ * An FID with several clients can be in more than one list
+ */
+export interface FarcasterSendNotificationResult {
+    /**
+     * Delivered in this call
+     */
+    sent: number[];
+    /**
+     * Skipped, a notification with this ID was already delivered to them
+     */
+    duplicate: number[];
+    /**
+     * The client reported the token invalid; the token was deleted
+     */
+    invalid: number[];
+    /**
+     * The client rate limited the token; send again later with the same `notificationId`
+     */
+    rateLimited: number[];
+    /**
+     * The client couldn't be reached; send again later with the same `notificationId`
+     */
+    failed: number[];
+    /**
+     * No enabled notification token
+     */
+    noToken: number[];
+}
+
+/**
+ * Database schema for notification tokens and deliveries, and the `miniappAdded` flag on the user
+ */
+export const farcasterNotificationSchema = {
+    user: {
+        fields: {
+            miniappAdded: { type: "boolean", required: false, defaultValue: false },
+        },
+    },
+    farcasterNotificationToken: {
+        fields: {
+            fid: { type: "number", required: true },
+            url: { type: "string", required: true },
+            token: { type: "string", unique: true, required: true },
+            enabled: { type: "boolean", required: true },
+            createdAt: { type: "date", required: true },
+            updatedAt: { type: "date", required: true },
+        },
+    },
+    // Notification IDs delivered to each token, for idempotent sends
+    // A row is created before sending, so concurrent sends of the same notification can't both deliver it
+    farcasterNotificationDelivery: {
+        fields: {
+            // `<notificationId>:<token>`
+            key: { type: "string", unique: true, required: true },
+            notificationId: { type: "string", required: true },
+            token: { type: "string", required: true },
+            fid: { type: "number", required: true },
+            createdAt: { type: "date", required: true },
+        },
+    },
+} satisfies BetterAuthPlugin["schema"];
+
+// JSON Farcaster Signature envelope, each part base64url encoded
+const webhookSchema = z.object({
+    header: z.string().min(1),
+    payload: z.string().min(1),
+    signature: z.string().min(1),
+});
+
+const jfsHeaderSchema = z.object({
+    fid: z.number().int().positive(),
+    type: z.literal("app_key"),
+    key: z.string().regex(/^0x[0-9a-fA-F]{64}$/),
+});
+
+const notificationDetailsSchema = z.object({
+    url: z.string().url(),
+    token: z.string().min(1),
+});
+
+// `frame_*` are the event names used before miniapps were renamed
+const webhookEventSchema = z.discriminatedUnion("event", [
+    z.object({ event: z.enum(["miniapp_added", "frame_added"]), notificationDetails: notificationDetailsSchema.optional() }),
+    z.object({ event: z.enum(["miniapp_removed", "frame_removed"]) }),
+    z.object({ event: z.literal("notifications_enabled"), notificationDetails: notificationDetailsSchema }),
+    z.object({ event: z.literal("notifications_disabled") }),
+]);
+
+const sendNotificationSchema = z.object({
+    fids: z.array(z.number().int().positive()).optional(),
+    userIds: z.array(z.string().min(1)).optional(),
+    notificationId: z.string().min(1).max(128),
+    title: z.string().min(1).max(32),
+    body: z.string().min(1).max(128),
+    targetUrl: z.string().url().max(1024),
+});
+
+// Response of a Farcaster client's notification URL
+const sendNotificationResponseSchema = z.object({
+    result: z.object({
+        successfulTokens: z.array(z.string()),
+        invalidTokens: z.array(z.string()),
+        rateLimitedTokens: z.array(z.string()),
+    }),
+});
+
+function decodeBase64Url(value: string): Uint8Array<ArrayBuffer> {
+    const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+    const binary = atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, "="));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function decodeJson(value: string): unknown {
+    try {
+        return JSON.parse(new TextDecoder().decode(decodeBase64Url(value)));
+    } catch {
+        return undefined;
+    }
+}
+
+function hexToBytes(hex: string): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(hex.slice(2).match(/../g) || [], (byte) => parseInt(byte, 16));
+}
+
+/**
+ * Check the Ed25519 signature of a JSON Farcaster Signature envelope
+ */
+async function verifyEnvelopeSignature(envelope: z.infer<typeof webhookSchema>, appKey: string): Promise<boolean> {
+    try {
+        const key = await crypto.subtle.importKey("raw", hexToBytes(appKey), { name: "Ed25519" }, false, ["verify"]);
+        return await crypto.subtle.verify(
+            { name: "Ed25519" },
+            key,
+            decodeBase64Url(envelope.signature),
+            new TextEncoder().encode(`${envelope.header}.${envelope.payload}`)
+        );
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Store a notification token for an FID, replacing the previous token from the same client
+ */
+async function saveNotificationToken(
+    adapter: Adapter,
+    params: { fid: number; url: string; token: string }
+): Promise<void> {
+    const now = new Date();
+    await adapter.deleteMany({
+        model: TOKEN_MODEL,
+        where: [
+            { field: "token", value: params.token },
+            { field: "fid", operator: "ne", value: params.fid },
+        ],
+    });
+
+    const existing = await adapter.findOne<FarcasterNotificationToken>({
+        model: TOKEN_MODEL,
+        where: [
+            { field: "fid", value: params.fid },
+            { field: "url", value: params.url },
+        ],
+    });
+
+    if (existing) {
+        await adapter.update({
+            model: TOKEN_MODEL,
+            where: [{ field: "id", value: existing.id }],
+            update: { token: params.token, enabled: true, updatedAt: now },
+        });
+        return;
+    }
+
+    await adapter.create({
+        model: TOKEN_MODEL,
+        data: { ...params, enabled: true, createdAt: now, updatedAt: now },
+    });
+}
+
+/**
+ * Disable every notification token of an FID
+ * Removal and disable events don't say which client they come from
+ */
+async function disableNotificationTokens(adapter: Adapter, fid: number): Promise<void> {
+    await adapter.updateMany({
+        model: TOKEN_MODEL,
+        where: [{ field: "fid", value: fid }],
+        update: { enabled: false, updatedAt: new Date() },
+    });
+}
+
+/**
+ * Create the endpoint receiving miniapp webhook events from Farcaster clients
+ * Point the `webhookUrl` of your miniapp manifest at it
+ * @param path - Endpoint path (e.g., "/farcaster-miniapp/webhook")
+ * @param options - Notification options
+ */
+export function createMiniappWebhookEndpoint<Path extends string>(path: Path, options: FarcasterMiniappNotificationOptions) {
+    return createAuthEndpoint(
+        path,
+        {
+            method: "POST",
+            body: webhookSchema,
+            metadata: {
+                openapi: {
+                    summary: "Miniapp webhook",
+                    description: "Receive signed miniapp events (added, removed, notifications enabled or disabled) from Farcaster clients",
+                    tags: ["Farcaster"],
+                },
+            },
+        },
+        async (ctx) => {
+            const header = jfsHeaderSchema.safeParse(decodeJson(ctx.body.header));
+            if (!header.success) {
+                throw new APIError("BAD_REQUEST", {
+                    message: "Invalid webhook header",
+                    code: "INVALID_WEBHOOK_EVENT",
+                });
+            }
+
+            const { fid, key } = header.data;
+            if (!await verifyEnvelopeSignature(ctx.body, key)) {
+                throw new APIError("UNAUTHORIZED", {
+                    message: "Invalid webhook signature",
+                    code: "INVALID_SIGNATURE",
+                });
+            }
+
+            if (!await options.verifyAppKey(fid, key)) {
+                throw new APIError("UNAUTHORIZED", {
+                    message: "App key is not an active signer of this FID",
+                    code: "INVALID_APP_KEY",
+                });
+            }
+
+            const event = webhookEventSchema.safeParse(decodeJson(ctx.body.payload));
+            if (!event.success) {
+                throw new APIError("BAD_REQUEST", {
+                    message: "Invalid webhook payload",
+                    code: "INVALID_WEBHOOK_EVENT",
+                });
+            }
+
+            const { adapter } = ctx.context;
+            const data = event.data;
+
+            if ("notificationDetails" in data && data.notificationDetails) {
+                await saveNotificationToken(adapter, { fid, ...data.notificationDetails });
+            }
+            if (data.event === "miniapp_removed" || data.event === "frame_removed" || data.event === "notifications_disabled") {
+                await disableNotificationTokens(adapter, fid);
+            }
+            if (data.event !== "notifications_enabled" && data.event !== "notifications_disabled") {
+                // Only users who have signed in exist; tokens are kept by FID either way
+                await adapter.updateMany({
+                    model: "user",
+                    where: [{ field: "fid", value: fid }],
+                    update: { miniappAdded: data.event === "miniapp_added" || data.event === "frame_added" },
+                });
+            }
+
+            return ctx.json({ success: true });
+        }
+    );
+}
+
+/**
+ * Find every row whose `field` is one of `values`, however many there are
+ * The values are split into chunks and each chunk is paged through, so the adapter's default limit doesn't cut it short
+ */
+async function findAllIn<T>(
+    adapter: Adapter,
+    model: string,
+    field: string,
+    values: (string | number)[],
+    where: Where[] = []
+): Promise<T[]> {
+    const rows: T[] = [];
+    for (let i = 0; i < values.length; i += QUERY_BATCH_SIZE) {
+        const chunk = values.slice(i, i + QUERY_BATCH_SIZE) as string[] | number[];
+        for (let offset = 0; ; offset += QUERY_BATCH_SIZE) {
+            const page = await adapter.findMany<T>({
+                model,
+                where: [...where, { field, operator: "in", value: chunk }],
+                limit: QUERY_BATCH_SIZE,
+                offset,
+                sortBy: { field: "id", direction: "asc" },
+            });
+            rows.push(...page);
+            if (page.length < QUERY_BATCH_SIZE) break;
+        }
+    }
+    return rows;
+}
+
+/**
+ * Resolve the FIDs to notify from FIDs and user IDs
+ */
+async function resolveNotificationFids(adapter: Adapter, params: FarcasterSendNotificationParams): Promise<number[]> {
+    const fids = new Set(params.fids);
+    if (params.userIds?.length) {
+        const users = await findAllIn<{ fid?: number | null }>(adapter, "user", "id", [...new Set(params.userIds)]);
+        for (const user of users) {
+            if (user.fid) fids.add(user.fid);
+        }
+    }
+    return [...fids];
+}
+
+const getDeliveryKey = (notificationId: string, token: string) => `${notificationId}:${token}`;
+
+/**
+ * Reserve the delivery of a notification to a token
+ * @returns false if the notification was already delivered to the token, or is being sent to it
+ */
+async function reserveDelivery(
+    adapter: Adapter,
+    notificationId: string,
+    token: FarcasterNotificationToken
+): Promise<boolean> {
+    const key = getDeliveryKey(notificationId, token.token);
+    try {
+        await adapter.create({
+            model: DELIVERY_MODEL,
+            data: { key, notificationId, token: token.token, fid: token.fid, createdAt: new Date() },
+        });
+        return true;
+    } catch (error) {
+        // Another send took the key first
+        const existing = await adapter.findOne({ model: DELIVERY_MODEL, where: [{ field: "key", value: key }] });
+        if (existing) {
+            return false;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Release a reservation whose token wasn't delivered to, so a later send can retry it
+ */
+async function releaseDelivery(adapter: Adapter, notificationId: string, token: string): Promise<void> {
+    await adapter.deleteMany({
+        model: DELIVERY_MODEL,
+        where: [{ field: "key", value: getDeliveryKey(notificationId, token) }],
+    });
+}
+
+/**
+ * POST one batch of tokens to a Farcaster client's notification URL
+ * @returns The client's result, or null if the request failed
+ */
+async function postNotificationBatch(
+    url: string,
+    params: FarcasterSendNotificationParams,
+    tokens: string[]
+): Promise<z.infer<typeof sendNotificationResponseSchema>["result"] | null> {
+    try {
+        const response = await fetch(url, {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({
+                notificationId: params.notificationId,
+                title: params.title,
+                body: params.body,
+                targetUrl: params.targetUrl,
+                tokens,
+            }),
+            signal: AbortSignal.timeout(10000),
+        });
+        if (!response.ok) {
+            return null;
+        }
+        const parsed = sendNotificationResponseSchema.safeParse(await response.json());
+        return parsed.success ? parsed.data.result : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Send a notification to every enabled token of the given FIDs and users
+ * Tokens are batched per notification URL, invalid tokens are deleted, and tokens already
+ * sent this `notificationId` (or being sent it by a concurrent call) are skipped
+ * @param context - The Better Auth context
+ * @param params - The notification and its recipients
+ */
+export async function sendMiniappNotification(
+    context: AuthContext,
+    params: FarcasterSendNotificationParams
+): Promise<FarcasterSendNotificationResult> {
+    const { adapter } = context;
+    const result: Record<keyof FarcasterSendNotificationResult, Set<number>> = {
+        sent: new Set(),
+        duplicate: new Set(),
+        invalid: new Set(),
+        rateLimited: new Set(),
+        failed: new Set(),
+        noToken: new Set(),
+    };
+
+    const fids = await resolveNotificationFids(adapter, params);
+    const tokens = await findAllIn<FarcasterNotificationToken>(adapter, TOKEN_MODEL, "fid", fids, [
+        { field: "enabled", value: true },
+    ]);
+
+    const withToken = new Set(tokens.map((token) => token.fid));
+    for (const fid of fids) {
+        if (!withToken.has(fid)) result.noToken.add(fid);
+    }
+
+    const delivered = await findAllIn<{ token: string }>(
+        adapter,
+        DELIVERY_MODEL,
+        "token",
+        tokens.map((token) => token.token),
+        [{ field: "notificationId", value: params.notificationId }]
+    );
+    const deliveredTokens = new Set(delivered.map((delivery) => delivery.token));
+
+    // Group the remaining tokens per client notification URL
+    const byUrl = new Map<string, FarcasterNotificationToken[]>();
+    for (const token of tokens) {
+        if (deliveredTokens.has(token.token) || !await reserveDelivery(adapter, params.notificationId, token)) {
+            result.duplicate.add(token.fid);
+            continue;
+        }
+        byUrl.set(token.url, [...(byUrl.get(token.url) || []), token]);
+    }
+
+    const batches: FarcasterNotificationToken[][] = [];
+    for (const urlTokens of byUrl.values()) {
+        for (let i = 0; i < urlTokens.length; i += MAX_TOKENS_PER_REQUEST) {
+            batches.push(urlTokens.slice(i, i + MAX_TOKENS_PER_REQUEST));
+        }
+    }
+
+    await Promise.all(batches.map(async (batch) => {
+        const response = await postNotificationBatch(batch[0].url, params, batch.map((token) => token.token));
+        const fidOf = new Map(batch.map((token) => [token.token, token.fid]));
+        if (!response) {
+            for (const token of batch) {
+                result.failed.add(token.fid);
+                await releaseDelivery(adapter, params.notificationId, token.token);
+            }
+            return;
+        }
+
+        // Only successful tokens keep their reservation
+        const successful = new Set(response.successfulTokens);
+        for (const token of batch) {
+            if (successful.has(token.token)) {
+                result.sent.add(token.fid);
+            } else {
+                await releaseDelivery(adapter, params.notificationId, token.token);
+            }
+        }
+        for (const token of response.invalidTokens) {
+            const fid = fidOf.get(token);
+            if (fid === undefined) continue;
+            result.invalid.add(fid);
+            await adapter.deleteMany({ model: TOKEN_MODEL, where: [{ field: "token", value: token }] });
+        }
+        for (const token of response.rateLimitedTokens) {
+            const fid = fidOf.get(token);
+            if (fid !== undefined) result.rateLimited.add(fid);
+        }
+    }));
+
+    return {
+        sent: [...result.sent],
+        duplicate: [...result.duplicate],
+        invalid: [...result.invalid],
+        rateLimited: [...result.rateLimited],
+        failed: [...result.failed],
+        noToken: [...result.noToken],
+    };
+}
+
+/**
+ * Create the server-only endpoint sending a notification to users, exposed as `auth.api.sendNotification`
+ * @param path - Endpoint path (e.g., "/farcaster-miniapp/send-notification")
+ */
+export function createSendNotificationEndpoint<Path extends string>(path: Path) {
+    return createAuthEndpoint(
+        path,
+        {
+            method: "POST",
+            body: sendNotificationSchema,
+            metadata: {
+                SERVER_ONLY: true,
+            },
+        },
+        async (ctx) => {
+            if (!ctx.body.fids?.length && !ctx.body.userIds?.length) {
+                throw new APIError("BAD_REQUEST", {
+                    message: "Pass fids or userIds",
+                    code: "NO_RECIPIENTS",
+                });
+            }
+            return ctx.json(await sendMiniappNotification(ctx.context, ctx.body));
+        }
+    );
+}
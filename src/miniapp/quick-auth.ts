@@ -0,0 +1,322 @@
+/**
+ * Quick Auth JWT verification shared by the Miniapp plugin and stateless API routes
+ * Checks a token's signature, expiry and audience against the same domain config as the plugin,
+ * with the Quick Auth server's signing keys cached in memory or in Better Auth's `secondaryStorage`
+ */
+import type { AuthContext } from "better-auth";
+import { APIError } from "better-auth/api";
+import { Errors } from "@farcaster/quick-auth";
+import type { JSONWebKeySet } from "jose";
+import { createDomainResolver } from "../domain";
+import type { FarcasterSharedOptions, FarcasterUser } from "../types";
+
+/**
+ * Claims of a verified Quick Auth JWT
+ */
+export interface QuickAuthClaims {
+    fid: number;
+    /**
+     * Issued at, in seconds since the epoch
+     */
+    iat: number;
+    /**
+     * Expires at, in seconds since the epoch
+     */
+    exp: number;
+}
+
+/**
+ * Options of the Quick Auth verifier, passed as `quickAuth` to the Miniapp flow
+ */
+export interface QuickAuthOptions {
+    /**
+     * Origin of the Quick Auth server issuing the tokens; set it to a local issuer to run the flow offline
+     * Tokens must be issued by this origin, and its signing keys are read from `<origin>/.well-known/jwks.json`
+     * @default "https://auth.farcaster.xyz"
+     */
+    origin?: string;
+    /**
+     * How long the signing keys are used before being fetched again, in seconds
+     * If fetching fails, the previous keys keep being used
+     * @default 3600
+     */
+    jwksCacheTtl?: number;
+    /**
+     * Clock skew allowed when checking `exp`, `iat` and `nbf`, in seconds
+     * @default 0
+     */
+    clockTolerance?: number;
+    /**
+     * Claims every token must have, e.g. `["iat", "exp"]`
+     */
+    requiredClaims?: string[];
+}
+
+/**
+ * Result of {@link verifyQuickAuthRequest}
+ */
+export interface QuickAuthContext extends QuickAuthClaims {
+    /**
+     * The Better Auth user holding the FID, when `auth` is passed; null if no user has it
+     */
+    user?: FarcasterUser | null;
+}
+
+/**
+ * Options for {@link verifyQuickAuthRequest} and {@link requireQuickAuth}
+ * Pass the same `domain` and `resolveDomain` as to the plugin
+ */
+export interface QuickAuthRequestOptions extends Pick<FarcasterSharedOptions, "domain" | "resolveDomain"> {
+    /**
+     * Your Better Auth instance, to load the user holding the verified FID
+     * Its `secondaryStorage`, if any, also caches the signing keys
+     */
+    auth?: { $context: Promise<AuthContext> };
+    /**
+     * Same as the Miniapp flow's `quickAuth` option
+     */
+    quickAuth?: QuickAuthOptions;
+}
+
+type KeyStorage = Pick<NonNullable<AuthContext["secondaryStorage"]>, "get" | "set">;
+
+interface CachedKeys {
+    jwks: JSONWebKeySet;
+    fetchedAt: number;
+}
+
+const DEFAULT_ORIGIN = "https://auth.farcaster.xyz";
+
+// Don't refetch more often than this when a token names an unknown key
+const MIN_REFRESH_INTERVAL = 30 * 1000;
+
+// Signing keys per issuer origin, shared by all verifiers
+const memoryKeys = new Map<string, CachedKeys>();
+
+const getStorageKey = (origin: string) => `farcaster-quick-auth-jwks:${origin}`;
+
+async function readCachedKeys(origin: string, storage?: KeyStorage): Promise<CachedKeys | null> {
+    const inMemory = memoryKeys.get(origin);
+    if (inMemory || !storage) {
+        return inMemory || null;
+    }
+    try {
+        const stored = await storage.get(getStorageKey(origin));
+        return stored ? (typeof stored === "string" ? JSON.parse(stored) : stored) as CachedKeys : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Get the issuer's signing keys, from the cache while they are fresh
+ * Falls back to expired keys when the issuer can't be reached, so verification survives brief outages
+ */
+async function getSigningKeys(
+    origin: string,
+    ttl: number,
+    storage?: KeyStorage,
+    refresh = false
+): Promise<CachedKeys> {
+    const cached = await readCachedKeys(origin, storage);
+    if (cached && !refresh && Date.now() - cached.fetchedAt < ttl * 1000) {
+        return cached;
+    }
+
+    try {
+        const response = await fetch(`${origin}/.well-known/jwks.json`, { signal: AbortSignal.timeout(5000) });
+        if (!response.ok) {
+            throw new Error(`Failed to fetch Quick Auth signing keys: HTTP ${response.status}`);
+        }
+        const keys: CachedKeys = { jwks: await response.json() as JSONWebKeySet, fetchedAt: Date.now() };
+        memoryKeys.set(origin, keys);
+        // Kept without expiry, to fall back on during outages; `fetchedAt` decides freshness
+        await storage?.set(getStorageKey(origin), JSON.stringify(keys));
+        return keys;
+    } catch (error) {
+        if (cached) {
+            return cached;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Load `jose`, an optional peer dependency only the Quick Auth verifier needs
+ * @throws APIError INTERNAL_SERVER_ERROR if `jose` isn't installed
+ */
+async function loadJose() {
+    try {
+        return await import("jose");
+    } catch {
+        throw new APIError("INTERNAL_SERVER_ERROR", {
+            message: "Failed to load jose. Make sure jose is installed to verify Quick Auth tokens.",
+        });
+    }
+}
+
+// Errors meaning the token itself is bad, rather than the issuer being unreachable
+const getInvalidTokenErrors = ({ errors }: Awaited<ReturnType<typeof loadJose>>) => [
+    errors.JWTInvalid,
+    errors.JWTExpired,
+    errors.JWTClaimValidationFailed,
+    errors.JWSInvalid,
+    errors.JWSSignatureVerificationFailed,
+    errors.JWKSNoMatchingKey,
+];
+
+/**
+ * Create the verifier of Quick Auth tokens used by the Miniapp flow
+ * @param resolveDomain - Picks the allowed domain a request's token must be issued to
+ * @param options - The `quickAuth` option
+ * @returns Function verifying a token; throws `Errors.InvalidTokenError` for bad tokens
+ */
+export function createQuickAuthVerifier(
+    resolveDomain: ReturnType<typeof createDomainResolver>,
+    options: QuickAuthOptions = {}
+) {
+    const origin = (options.origin || DEFAULT_ORIGIN).replace(/\/+$/, "");
+    const ttl = options.jwksCacheTtl ?? 3600;
+
+    const verify = async (jose: Awaited<ReturnType<typeof loadJose>>, token: string, domain: string, keys: CachedKeys) => {
+        const { payload } = await jose.jwtVerify(token, jose.createLocalJWKSet(keys.jwks), {
+            issuer: origin,
+            audience: domain,
+            clockTolerance: options.clockTolerance,
+            requiredClaims: options.requiredClaims,
+        });
+        return payload;
+    };
+
+    return async (
+        token: string,
+        request?: Request,
+        headers?: Headers,
+        storage?: KeyStorage
+    ): Promise<QuickAuthClaims> => {
+        const domain = await resolveDomain(request, headers);
+        const jose = await loadJose();
+        try {
+            let keys = await getSigningKeys(origin, ttl, storage);
+            let payload;
+            try {
+                payload = await verify(jose, token, domain, keys);
+            } catch (error) {
+                // The issuer may have rotated its keys since they were cached
+                if (!(error instanceof jose.errors.JWKSNoMatchingKey) || Date.now() - keys.fetchedAt < MIN_REFRESH_INTERVAL) {
+                    throw error;
+                }
+                keys = await getSigningKeys(origin, ttl, storage, true);
+                payload = await verify(jose, token, domain, keys);
+            }
+
+            const fid = Number(payload.sub);
+            if (!Number.isSafeInteger(fid) || fid <= 0) {
+                throw new Errors.InvalidTokenError("Invalid token: no FID found");
+            }
+            if (typeof payload.iat !== "number" || typeof payload.exp !== "number") {
+                throw new Errors.InvalidTokenError("Invalid token: missing iat or exp");
+            }
+            return { fid, iat: payload.iat, exp: payload.exp };
+        } catch (error) {
+            if (getInvalidTokenErrors(jose).some((type) => error instanceof type)) {
+                throw new Errors.InvalidTokenError((error as Error).message);
+            }
+            throw error;
+        }
+    };
+}
+
+// One verifier per options object, so repeated calls share the Quick Auth client
+const verifiers = new WeakMap<QuickAuthRequestOptions, ReturnType<typeof createQuickAuthVerifier>>();
+
+/**
+ * Verify the Quick Auth JWT in a request's `Authorization: Bearer` header, without a Better Auth session
+ * @param request - The incoming request
+ * @param options - The plugin's domain and Quick Auth config, and optionally your Better Auth instance to load the user
+ * @returns The token's FID, `iat` and `exp`, and the user holding the FID when `auth` is passed
+ * @throws APIError UNAUTHORIZED with code `INVALID_TOKEN` if the token is missing, invalid or expired,
+ * FORBIDDEN if the request's domain isn't allowed
+ *
+ * @example
+ * ```ts
+ * import { verifyQuickAuthRequest } from "better-auth-farcaster-plugin/miniapp";
+ *
+ * const { fid, user } = await verifyQuickAuthRequest(request, { domain: "example.com", auth });
+ * ```
+ */
+export async function verifyQuickAuthRequest(
+    request: Request,
+    options: QuickAuthRequestOptions
+): Promise<QuickAuthContext> {
+    let verify = verifiers.get(options);
+    if (!verify) {
+        verify = createQuickAuthVerifier(createDomainResolver(options), options.quickAuth);
+        verifiers.set(options, verify);
+    }
+    const context = options.auth ? await options.auth.$context : null;
+
+    const token = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "").trim();
+    if (!token) {
+        throw new APIError("UNAUTHORIZED", {
+            message: "Missing Farcaster Quick Auth token",
+            code: "INVALID_TOKEN",
+        });
+    }
+
+    let claims: QuickAuthClaims;
+    try {
+        claims = await verify(token, request, undefined, context?.secondaryStorage);
+    } catch (error) {
+        if (error instanceof Errors.InvalidTokenError) {
+            throw new APIError("UNAUTHORIZED", {
+                message: "Invalid or expired Farcaster token",
+                code: "INVALID_TOKEN",
+            });
+        }
+        throw error;
+    }
+
+    if (!context) {
+        return claims;
+    }
+
+    const user = await context.adapter.findOne<FarcasterUser>({
+        model: "user",
+        where: [{ field: "fid", value: claims.fid }],
+    });
+    return { ...claims, user };
+}
+
+/**
+ * Wrap a fetch-style route handler so it only runs for requests with a valid Quick Auth JWT
+ * Other requests get a JSON error response (401, or 403 for a disallowed domain)
+ * @param options - Same as {@link verifyQuickAuthRequest}
+ *
+ * @example
+ * ```ts
+ * import { requireQuickAuth } from "better-auth-farcaster-plugin/miniapp";
+ *
+ * const withQuickAuth = requireQuickAuth({ domain: "example.com", auth });
+ *
+ * export const POST = withQuickAuth(async (request, { fid, user }) => {
+ *     return Response.json({ fid, name: user?.name });
+ * });
+ * ```
+ */
+export function requireQuickAuth(options: QuickAuthRequestOptions) {
+    return <Args extends unknown[]>(
+        handler: (request: Request, quickAuth: QuickAuthContext, ...args: Args) => Response | Promise<Response>
+    ) => async (request: Request, ...args: Args): Promise<Response> => {
+        let quickAuth: QuickAuthContext;
+        try {
+            quickAuth = await verifyQuickAuthRequest(request, options);
+        } catch (error) {
+            if (error instanceof APIError) {
+                return Response.json(error.body, { status: error.statusCode });
+            }
+            throw error;
+        }
+        return handler(request, quickAuth, ...args);
+    };
+}
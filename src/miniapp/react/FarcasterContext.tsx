@@ -121,6 +121,9 @@ const FarcasterContext = createContext<FarcasterContextValue | undefined>(undefi
  * }
  * ```
  */
+// Linking takes a Quick Auth token, even when sign-in uses a SIWF message
+const missingLinkToken = () => Promise.reject(new Error("Pass getToken in linkOptions or signInOptions to link"));
+
 export function FarcasterProvider({
     children,
     signInOptions,
@@ -132,7 +135,7 @@ export function FarcasterProvider({
     // Merge link options with defaults from signInOptions
     const fullLinkOptions: UseFarcasterLinkOptions = {
         authClient: linkOptions.authClient || (signInOptions.authClient as any),
-        getToken: linkOptions.getToken || signInOptions.getToken,
+        getToken: linkOptions.getToken || signInOptions.getToken || missingLinkToken,
         onLinkSuccess: linkOptions.onLinkSuccess,
         onUnlinkSuccess: linkOptions.onUnlinkSuccess,
         onError: linkOptions.onError,
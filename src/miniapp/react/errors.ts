@@ -7,6 +7,8 @@ export type FarcasterAuthErrorCode =
     | 'RATE_LIMITED'
     | 'NETWORK_ERROR'
     | 'TOKEN_FETCH_FAILED'
+    | 'LAST_SIGN_IN_METHOD'
+    | 'ACCESS_DENIED'
     | 'UNKNOWN';
 
 /**
@@ -24,15 +26,22 @@ export class FarcasterAuthError extends Error {
      */
     readonly cause?: Error;
 
+    /**
+     * Why the server refused access, for `ACCESS_DENIED` errors (e.g. `FID_NOT_ALLOWED`)
+     */
+    readonly reason?: string;
+
     constructor(
         message: string,
         code: FarcasterAuthErrorCode = 'UNKNOWN',
-        cause?: Error
+        cause?: Error,
+        reason?: string
     ) {
         super(message);
         this.name = 'FarcasterAuthError';
         this.code = code;
         this.cause = cause;
+        this.reason = reason;
 
         // Maintains proper stack trace for where our error was thrown (only in V8)
         if (Error.captureStackTrace) {
@@ -52,4 +61,26 @@ export class FarcasterAuthError extends Error {
         }
         return new FarcasterAuthError(String(err), code);
     }
+
+    /**
+     * Create an error from a Better Auth client error response
+     * Maps the server's error code, status and message to a FarcasterAuthErrorCode
+     */
+    static fromResponse(
+        error: { message?: string; code?: string; status?: number; reason?: string },
+        fallbackMessage: string
+    ): FarcasterAuthError {
+        const message = error.message || fallbackMessage;
+        let code: FarcasterAuthErrorCode = 'UNKNOWN';
+        if (message.includes('rate limit') || error.status === 429) {
+            code = 'RATE_LIMITED';
+        } else if (error.code === 'ACCESS_DENIED') {
+            return new FarcasterAuthError(message, 'ACCESS_DENIED', undefined, error.reason);
+        } else if (error.code === 'LAST_SIGN_IN_METHOD') {
+            code = 'LAST_SIGN_IN_METHOD';
+        } else if (message.includes('invalid') || message.includes('expired')) {
+            code = 'INVALID_TOKEN';
+        }
+        return new FarcasterAuthError(message, code);
+    }
 }
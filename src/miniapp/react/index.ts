@@ -21,6 +21,7 @@ export type {
     UseFarcasterSignInOptions,
     UseFarcasterSignInReturn,
     GetFarcasterTokenFn,
+    GetFarcasterSignInMessageFn,
     SessionData,
     BetterAuthClientWithFarcaster,
 } from "./useFarcasterSignIn";
@@ -40,6 +41,7 @@ export type { FarcasterAuthErrorCode } from "./errors";
 export type {
     FarcasterUser,
     FarcasterSignInResponse,
+    FarcasterSessionResponse,
     FarcasterLinkResponse,
     FarcasterProfileResponse,
 } from "../../types";
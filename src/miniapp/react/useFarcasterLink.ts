@@ -215,14 +215,7 @@ export function useFarcasterLink(
             const response = await authClientRef.current.farcasterMiniapp.link({ token });
 
             if (response.error) {
-                const errorMessage = response.error.message || "Linking failed";
-                let errorCode: FarcasterAuthError['code'] = 'UNKNOWN';
-                if (errorMessage.includes('rate limit') || response.error.status === 429) {
-                    errorCode = 'RATE_LIMITED';
-                } else if (errorMessage.includes('invalid') || errorMessage.includes('expired')) {
-                    errorCode = 'INVALID_TOKEN';
-                }
-                throw new FarcasterAuthError(errorMessage, errorCode);
+                throw FarcasterAuthError.fromResponse(response.error, "Linking failed");
             }
 
             if (!response.data) {
@@ -248,8 +241,7 @@ export function useFarcasterLink(
             const response = await authClientRef.current.farcasterMiniapp.unlink();
 
             if (response.error) {
-                const errorMessage = response.error.message || "Unlinking failed";
-                throw new FarcasterAuthError(errorMessage, 'UNKNOWN');
+                throw FarcasterAuthError.fromResponse(response.error, "Unlinking failed");
             }
 
             if (!response.data) {
@@ -1,6 +1,6 @@
 import { useState, useCallback, useEffect, useRef } from "react";
 import type { Session } from "better-auth";
-import type { FarcasterSignInResponse, FarcasterUser } from "../../types";
+import type { FarcasterSessionResponse, FarcasterUser } from "../../types";
 import { FarcasterAuthError } from "./errors";
 
 /**
@@ -10,6 +10,12 @@ import { FarcasterAuthError } from "./errors";
  */
 export type GetFarcasterTokenFn = () => Promise<string>;
 
+/**
+ * Function type for signing a SIWF message over a server-issued nonce
+ * e.g. the miniapp SDK's `actions.signIn`, which returns the message and its signature
+ */
+export type GetFarcasterSignInMessageFn = (nonce: string) => Promise<{ message: string; signature: string }>;
+
 /**
  * Session data structure returned by Better Auth
  */
@@ -26,8 +32,16 @@ export interface SessionData {
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export interface BetterAuthClientWithFarcaster {
     farcasterMiniapp: {
+        // `context` is the miniapp SDK's context, typed by the client as the fields the server keeps
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        signIn: (data: { token: string }) => Promise<any>;
+        signIn: (data: { token: string; context?: any }) => Promise<any>;
+        // Present on farcasterMiniappClient / farcasterAuthClient; used in "message" mode
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        nonce?: () => Promise<any>;
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        signInWithMessage?: (data: { message: string; signature: string; context?: any }) => Promise<any>;
+        // Present on farcasterMiniappClient / farcasterAuthClient; stores the bearer token when `bearerToken` is on
+        setSessionToken?: (token: string | null) => void;
     };
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     getSession: () => Promise<any>;
@@ -56,7 +70,13 @@ export interface UseFarcasterSignInOptions {
      */
     authClient: BetterAuthClientWithFarcaster;
     /**
-     * Function to get the Farcaster Quick Auth token
+     * How to sign in: with a Quick Auth token from `getToken`, or with a SIWF message signed
+     * over a server-issued nonce by `getSignInMessage`, for hosts without Quick Auth
+     * @default "quickAuth"
+     */
+    mode?: "quickAuth" | "message";
+    /**
+     * Function to get the Farcaster Quick Auth token (required in "quickAuth" mode)
      * This is typically obtained from @farcaster/auth-kit or @farcaster/frame-sdk
      * 
      * @example Using @farcaster/frame-sdk:
@@ -69,7 +89,27 @@ export interface UseFarcasterSignInOptions {
      * };
      * ```
      */
-    getToken: GetFarcasterTokenFn;
+    getToken?: GetFarcasterTokenFn;
+    /**
+     * Function to sign the SIWF message (required in "message" mode)
+     *
+     * @example
+     * ```ts
+     * getSignInMessage: (nonce) => sdk.actions.signIn({ nonce, acceptAuthAddress: true })
+     * ```
+     */
+    getSignInMessage?: GetFarcasterSignInMessageFn;
+    /**
+     * Function to get the miniapp SDK context, sent with sign-in so the server can keep the
+     * launch context (client, platform, location) with the server's `launchContext` option
+     * If it fails, sign-in goes ahead without it
+     *
+     * @example
+     * ```ts
+     * getContext: () => sdk.context
+     * ```
+     */
+    getContext?: () => Promise<unknown>;
     /**
      * Whether to automatically check for existing session on mount
      * @default true
@@ -78,7 +118,7 @@ export interface UseFarcasterSignInOptions {
     /**
      * Callback fired when sign-in succeeds
      */
-    onSuccess?: (response: FarcasterSignInResponse) => void;
+    onSuccess?: (response: FarcasterSessionResponse) => void;
     /**
      * Callback fired when an existing session is found
      */
@@ -153,6 +193,77 @@ export interface UseFarcasterSignInReturn {
     refreshSession: () => Promise<void>;
 }
 
+/**
+ * Sign in with a Quick Auth token from `getToken`
+ */
+async function signInWithToken(
+    authClient: BetterAuthClientWithFarcaster,
+    getToken: GetFarcasterTokenFn | undefined,
+    context: unknown
+) {
+    let token: string;
+    try {
+        if (!getToken) {
+            throw new Error("getToken is required to sign in with Quick Auth");
+        }
+        token = await getToken();
+    } catch (err) {
+        throw new FarcasterAuthError(
+            "Failed to get Farcaster authentication token",
+            'TOKEN_FETCH_FAILED',
+            err instanceof Error ? err : undefined
+        );
+    }
+
+    if (!token) {
+        throw new FarcasterAuthError(
+            "No token returned from getToken function",
+            'TOKEN_FETCH_FAILED'
+        );
+    }
+
+    // Send the token to the Better Auth backend via the farcaster plugin
+    return authClient.farcasterMiniapp.signIn(
+        context === undefined ? { token } : { token, context }
+    );
+}
+
+/**
+ * Sign in with a SIWF message signed by `getSignInMessage` over a nonce from the server
+ */
+async function signInWithMessage(
+    authClient: BetterAuthClientWithFarcaster,
+    getSignInMessage: GetFarcasterSignInMessageFn | undefined,
+    context: unknown
+) {
+    const { nonce: getNonce, signInWithMessage: signIn } = authClient.farcasterMiniapp;
+    if (!getNonce || !signIn || !getSignInMessage) {
+        throw new FarcasterAuthError(
+            "Message sign-in needs getSignInMessage and a client with nonce and signInWithMessage",
+            'UNKNOWN'
+        );
+    }
+
+    const nonceResponse = await getNonce();
+    if (nonceResponse.error || !nonceResponse.data?.nonce) {
+        throw FarcasterAuthError.fromResponse(nonceResponse.error || {}, "Failed to get sign-in nonce");
+    }
+
+    let signed: { message: string; signature: string };
+    try {
+        signed = await getSignInMessage(nonceResponse.data.nonce);
+    } catch (err) {
+        throw new FarcasterAuthError(
+            "Failed to sign the Farcaster sign-in message",
+            'TOKEN_FETCH_FAILED',
+            err instanceof Error ? err : undefined
+        );
+    }
+
+    const body = { message: signed.message, signature: signed.signature };
+    return signIn(context === undefined ? body : { ...body, context });
+}
+
 /**
  * React hook for Farcaster sign-in with Better Auth (Miniapp context)
  * 
@@ -229,7 +340,10 @@ export function useFarcasterSignIn(
 ): UseFarcasterSignInReturn {
     const {
         authClient,
+        mode = "quickAuth",
         getToken,
+        getSignInMessage,
+        getContext,
         autoCheckSession = true,
         onSuccess,
         onSessionFound,
@@ -255,6 +369,8 @@ export function useFarcasterSignIn(
     const onSignOutRef = useRef(onSignOut);
     const onSessionExpiredRef = useRef(onSessionExpired);
     const getTokenRef = useRef(getToken);
+    const getSignInMessageRef = useRef(getSignInMessage);
+    const getContextRef = useRef(getContext);
 
     // Keep refs up to date
     authClientRef.current = authClient;
@@ -264,6 +380,8 @@ export function useFarcasterSignIn(
     onSignOutRef.current = onSignOut;
     onSessionExpiredRef.current = onSessionExpired;
     getTokenRef.current = getToken;
+    getSignInMessageRef.current = getSignInMessage;
+    getContextRef.current = getContext;
 
     // Track authentication state for session expiration detection
     useEffect(() => {
@@ -310,6 +428,8 @@ export function useFarcasterSignIn(
                 if (wasAuthenticated.current) {
                     onSessionExpiredRef.current?.();
                 }
+                // A stored bearer token no longer matches a session
+                authClientRef.current.farcasterMiniapp.setSessionToken?.(null);
                 setUser(null);
                 setSession(null);
             }
@@ -360,44 +480,33 @@ export function useFarcasterSignIn(
                 return;
             }
 
-            // No valid session, proceed with Farcaster sign-in
-            let token: string;
-            try {
-                token = await getTokenRef.current();
-            } catch (err) {
-                throw new FarcasterAuthError(
-                    "Failed to get Farcaster authentication token",
-                    'TOKEN_FETCH_FAILED',
-                    err instanceof Error ? err : undefined
-                );
-            }
-
-            if (!token) {
-                throw new FarcasterAuthError(
-                    "No token returned from getToken function",
-                    'TOKEN_FETCH_FAILED'
-                );
-            }
+            // The launch context is optional, so failing to read it doesn't stop sign-in
+            const context = await getContextRef.current?.().catch(() => undefined);
 
-            // Send the token to the Better Auth backend via the farcaster plugin
-            const response = await authClientRef.current.farcasterMiniapp.signIn({ token });
+            // No valid session, proceed with Farcaster sign-in
+            const response = mode === "message"
+                ? await signInWithMessage(authClientRef.current, getSignInMessageRef.current, context)
+                : await signInWithToken(authClientRef.current, getTokenRef.current, context);
 
             if (response.error) {
-                const errorMessage = response.error.message || "Authentication failed";
-                // Detect specific error types
-                let errorCode: FarcasterAuthError['code'] = 'UNKNOWN';
-                if (errorMessage.includes('rate limit') || response.error.status === 429) {
-                    errorCode = 'RATE_LIMITED';
-                } else if (errorMessage.includes('invalid') || errorMessage.includes('expired')) {
-                    errorCode = 'INVALID_TOKEN';
-                }
-                throw new FarcasterAuthError(errorMessage, errorCode);
+                throw FarcasterAuthError.fromResponse(response.error, "Authentication failed");
             }
 
             if (!response.data) {
                 throw new FarcasterAuthError("No data received from server", 'UNKNOWN');
             }
 
+            // A server `beforeSignIn` hook sent the user elsewhere instead of signing in
+            if (response.data.redirect && response.data.url) {
+                window.location.href = response.data.url;
+                return;
+            }
+
+            // Keep the bearer token for cookie-less environments (the client ignores it unless `bearerToken` is on)
+            if (response.data.token) {
+                authClientRef.current.farcasterMiniapp.setSessionToken?.(response.data.token);
+            }
+
             setUser(response.data.user);
             setSession(response.data.session);
             onSuccessRef.current?.(response.data);
@@ -408,7 +517,7 @@ export function useFarcasterSignIn(
         } finally {
             setIsLoading(false);
         }
-    }, [user, session]); // Only depends on user/session state
+    }, [user, session, mode]); // Only depends on user/session state and the mode
 
     /**
      * Sign out and clear local state
@@ -420,6 +529,7 @@ export function useFarcasterSignIn(
         } catch (err) {
             // Ignore sign out errors, still clear local state
         } finally {
+            authClientRef.current.farcasterMiniapp.setSessionToken?.(null);
             setUser(null);
             setSession(null);
             setError(null);
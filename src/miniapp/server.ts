@@ -1,9 +1,43 @@
 import type { BetterAuthPlugin } from "better-auth";
-import { APIError, sessionMiddleware } from "better-auth/api";
-import { setSessionCookie } from 'better-auth/cookies';
-import { createAuthEndpoint } from "better-auth/api";
-import { createClient, Errors } from "@farcaster/quick-auth";
+import { APIError, createAuthEndpoint, sessionMiddleware } from "better-auth/api";
+import { generateRandomString, makeSignature } from "better-auth/crypto";
+import { bearer } from "better-auth/plugins/bearer";
+import { Errors } from "@farcaster/quick-auth";
 import { z } from "zod";
+import { checkAccessPolicy } from "../access";
+import { linkFarcasterAccount } from "../accounts";
+import { createAuditEventsEndpoint, recordAuthEvent, recordAuthFailure } from "../audit";
+import {
+    createAttachEmailEndpoint,
+    createFarcasterSession,
+    createProfileEndpoint,
+    createShared,
+    createSharedInit,
+    createUnlinkEndpoint,
+    getSharedSchema,
+    mergeSchemas,
+    isEmailRequired,
+    resolveCookieOptions,
+    resolveFarcasterUser,
+    runAfterLink,
+    runAfterSignIn,
+    runBeforeSignIn,
+    syncFarcasterProfile,
+    type FarcasterShared,
+} from "../shared";
+import { createAppClientLoader, createSiweUriResolver, extractNonceFromMessage } from "../siwf";
+import { checkMessagePolicy } from "../core/message-policy";
+import type { SIWFMessagePolicy } from "../core/types";
+import { createQuickAuthVerifier, type QuickAuthOptions } from "./quick-auth";
+import { farcasterLaunchContextSchema, launchContextSchema, toLaunchContextFields } from "./launch-context";
+import {
+    createMiniappWebhookEndpoint,
+    createSendNotificationEndpoint,
+    farcasterNotificationSchema,
+    type FarcasterMiniappNotificationOptions,
+    type FarcasterSendNotificationParams,
+    type FarcasterSendNotificationResult,
+} from "./notifications";
 
 // Import types from shared types file
 import type {
@@ -11,6 +45,10 @@ import type {
     FarcasterSignInResponse,
     FarcasterProfileResponse,
     FarcasterLinkResponse,
+    FarcasterAttachEmailResponse,
+    FarcasterCookieOptions,
+    FarcasterRedirectResponse,
+    FarcasterSharedOptions,
 } from "../types";
 
 // Re-export shared types for convenience
@@ -23,7 +61,8 @@ export type {
 
 /**
  * Type utility to add Farcaster Miniapp types to your auth instance.
- * Use this when Better Auth's automatic type inference doesn't work with external plugins.
+ * @deprecated `auth.api` now infers the plugin's endpoints with their exact request and response types,
+ * so the cast is no longer needed.
  * 
  * This preserves all base Better Auth types (getSession, signInEmail, etc.) while
  * adding the Farcaster Miniapp API types.
@@ -48,50 +87,55 @@ export type {
 export type WithFarcasterMiniapp<T> = T extends { api: infer API }
     ? Omit<T, 'api'> & {
         api: API & {
-            signInFarcasterMiniapp: (params: { body: { token: string }; headers?: Headers }) => Promise<FarcasterSignInResponse>;
+            signInFarcasterMiniapp: (params: { body: { token: string; context?: unknown }; headers?: Headers }) => Promise<FarcasterSignInResponse>;
+            nonceFarcasterMiniapp: (params?: { headers?: Headers }) => Promise<{ nonce: string }>;
+            signInWithMessageFarcasterMiniapp: (params: { body: { message: string; signature: string; context?: unknown }; headers?: Headers }) => Promise<FarcasterSignInResponse>;
             linkFarcasterMiniapp: (params: { body: { token: string }; headers?: Headers }) => Promise<FarcasterLinkResponse>;
-            unlinkFarcasterMiniapp: (params: { headers?: Headers }) => Promise<FarcasterLinkResponse>;
+            unlinkFarcasterMiniapp: (params: { body?: { force?: boolean }; headers?: Headers }) => Promise<FarcasterLinkResponse>;
             profileFarcasterMiniapp: (params: { headers?: Headers }) => Promise<FarcasterProfileResponse>;
+            attachEmailFarcasterMiniapp: (params: { body: { email: string; callbackURL?: string }; headers?: Headers }) => Promise<FarcasterAttachEmailResponse>;
+            sendNotificationFarcasterMiniapp: (params: { body: FarcasterSendNotificationParams }) => Promise<FarcasterSendNotificationResult>;
         }
     }
     : T;
 
 /**
  * Type for Farcaster Miniapp server API actions
- * Use this type for proper autocomplete when Better Auth's automatic
- * type inference doesn't work with external plugins.
+ * `auth.api` infers these from the plugin; this type is for code that takes the actions
+ * without knowing the auth instance, e.g. through {@link getFarcasterMiniappApi}.
  * 
  * @example
  * ```ts
  * import { betterAuth } from "better-auth";
- * import { farcasterMiniappAuth, type FarcasterMiniappServerActions } from "better-auth-farcaster-plugin/miniapp";
+ * import { farcasterMiniappAuth } from "better-auth-farcaster-plugin/miniapp";
  * 
  * const auth = betterAuth({
  *   plugins: [farcasterMiniappAuth({ domain: "example.com" })],
  * });
  * 
- * // Option 1: Cast the auth object
- * export const typedAuth = auth as typeof auth & {
- *   api: { farcasterMiniapp: FarcasterMiniappServerActions }
- * };
- * await typedAuth.api.farcasterMiniapp.signIn({ body: { token: "..." } });
- * 
- * // Option 2: Use the helper function
- * import { getFarcasterMiniappApi } from "better-auth-farcaster-plugin/miniapp";
- * const farcasterApi = getFarcasterMiniappApi(auth);
- * await farcasterApi.signIn({ body: { token: "..." } });
+ * // Request and response types are inferred from the plugin
+ * await auth.api.signIn({ body: { token: "..." } });
  * ```
  */
 export interface FarcasterMiniappServerActions {
-    signIn: (params: { body: { token: string }; headers?: Headers }) => Promise<FarcasterSignInResponse>;
+    signIn: (params: { body: { token: string; context?: unknown }; headers?: Headers }) => Promise<FarcasterSignInResponse>;
+    nonce: (params?: { headers?: Headers }) => Promise<{ nonce: string }>;
+    signInWithMessage: (params: { body: { message: string; signature: string; context?: unknown }; headers?: Headers }) => Promise<FarcasterSignInResponse>;
     link: (params: { body: { token: string }; headers?: Headers }) => Promise<FarcasterLinkResponse>;
-    unlink: (params: { headers?: Headers }) => Promise<FarcasterLinkResponse>;
+    unlink: (params: { body?: { force?: boolean }; headers?: Headers }) => Promise<FarcasterLinkResponse>;
     profile: (params: { headers?: Headers }) => Promise<FarcasterProfileResponse>;
+    attachEmail: (params: { body: { email: string; callbackURL?: string }; headers?: Headers }) => Promise<FarcasterAttachEmailResponse>;
+    /**
+     * Send a notification to users who added the miniapp (only with `notifications`)
+     */
+    sendNotification: (params: { body: FarcasterSendNotificationParams }) => Promise<FarcasterSendNotificationResult>;
 }
 
 /**
  * Helper function to get typed Farcaster Miniapp server actions from any auth instance.
- * Use this to get proper autocomplete when Better Auth's type inference fails.
+ * Use it where the auth instance isn't typed, e.g. passed around as `any`;
+ * otherwise `auth.api` already has the same methods with inferred types.
+ * Only for `farcasterMiniappAuth`: the combined `farcasterAuth` names its Miniapp endpoints `signInMiniapp`, etc.
  * 
  * @param auth - Your Better Auth instance (typed as any)
  * @returns Typed FarcasterMiniappServerActions object
@@ -113,385 +157,344 @@ export interface FarcasterMiniappServerActions {
  * ```
  */
 export function getFarcasterMiniappApi(auth: any): FarcasterMiniappServerActions {
-    return (auth.api as any).farcasterMiniapp as FarcasterMiniappServerActions;
+    return auth.api as FarcasterMiniappServerActions;
 }
 
 /**
  * Plugin options for Farcaster Miniapp authentication
  * Uses Farcaster Quick Auth for JWT verification in miniapp context
  */
-export interface FarcasterMiniappPluginOptions {
+export interface FarcasterMiniappPluginOptions extends FarcasterSharedOptions, FarcasterMiniappFlowOptions {}
+
+/**
+ * Options of the Miniapp (Quick Auth) flow
+ * Passed as `miniapp` to the combined `farcasterAuth` plugin
+ */
+export interface FarcasterMiniappFlowOptions {
     /**
-     * The domain of your application (e.g., "myapp.com" or "https://myapp.com")
-     * Used to verify the JWT token's audience
+     * Cookie configuration options, merged over the shared `cookieOptions`
      */
-    domain: string;
+    cookieOptions?: FarcasterCookieOptions;
     /**
-     * Optional function to resolve additional user data from Farcaster
-     * @param fid - The Farcaster ID
-     * @returns Additional user data to store
+     * Quick Auth verification: issuer origin, signing key caching, clock tolerance and required claims
      */
-    resolveUserData?: (fid: number) => Promise<{
-        name?: string;
-        email?: string;
-        image?: string;
-    }>;
+    quickAuth?: QuickAuthOptions;
     /**
-     * Cookie configuration options
+     * Return a signed session token from sign-in and accept it as `Authorization: Bearer`
+     * on every Better Auth endpoint, for miniapps whose session cookie is blocked as a
+     * third-party cookie in the Farcaster client's iframe or webview
+     * Pair it with the client's `bearerToken` option, which stores and sends the token
+     * @default false
      */
-    cookieOptions?: {
-        secure?: boolean;
-        sameSite?: "strict" | "lax" | "none";
-        httpOnly?: boolean;
-        path?: string;
-    };
+    bearerToken?: boolean;
+    /**
+     * Receive miniapp webhook events at `/farcaster-miniapp/webhook` and store notification tokens
+     * Set your miniapp manifest's `webhookUrl` to that endpoint
+     * Also adds the server-only `sendNotification` action
+     */
+    notifications?: FarcasterMiniappNotificationOptions;
+    /**
+     * URI that SIWF messages posted to `/farcaster-miniapp/sign-in-with-message` must carry, usually your
+     * miniapp's URL; with several, the one served from the request's domain is expected
+     * Without it, the message URI's host must match the request's domain
+     */
+    siweUri?: string | string[];
+    /**
+     * Checks of the fields of SIWF messages posted to `/farcaster-miniapp/sign-in-with-message`, as for the Core flow
+     */
+    messagePolicy?: SIWFMessagePolicy;
+    /**
+     * Store where each session was started (client FID, platform and launch location) from the
+     * miniapp SDK context sent with sign-in, as session fields readable via `getSession` and the profile endpoint
+     * @default false
+     */
+    launchContext?: boolean;
 }
 
-// Type for user records from the adapter
-type UserRecord = { id: string;[key: string]: unknown };
-
 // Input schemas
 const signInSchema = z.object({
     token: z.string().min(1, "Token is required"),
+    // The miniapp SDK's `context`
+    context: launchContextSchema,
+});
+
+const signInWithMessageSchema = z.object({
+    // SIWF message and signature from the miniapp SDK's `actions.signIn`
+    message: z.string().min(1, "Message is required"),
+    signature: z.string().regex(/^0x[a-fA-F0-9]+$/, "Invalid signature format"),
+    context: launchContextSchema,
 });
 
 const linkAccountSchema = z.object({
     token: z.string().min(1, "Token is required"),
 });
 
-/**
- * Extract hostname from a URL string
- * @param url - URL string (e.g., "https://example.com" or "example.com")
- * @returns The hostname portion of the URL
- */
-function getDomainFromUrl(url: string): string {
-    // If it's already just a hostname, return it
-    if (!url.includes("://") && !url.startsWith("//")) {
-        // Remove any port or path
-        return url.split(":")[0].split("/")[0];
-    }
+type EndpointContext = Parameters<typeof createFarcasterSession>[0];
 
-    try {
-        const parsedUrl = new URL(url);
-        return parsedUrl.hostname;
-    } catch {
-        // If parsing fails, try to extract hostname manually
-        const cleaned = url.replace(/^(https?:)?\/\//, "");
-        return cleaned.split(":")[0].split("/")[0];
-    }
-}
+// Nonces for SIWF message sign-in live in Better Auth's verification table
+const NONCE_IDENTIFIER_PREFIX = "farcaster-miniapp-nonce:";
+const NONCE_EXPIRES_IN = 600;
 
 /**
- * Farcaster Miniapp authentication plugin for Better Auth
- * Uses Farcaster Quick Auth to verify JWT tokens from miniapp context
- * 
- * @example
- * ```ts
- * import { farcasterMiniappAuth } from "better-auth-farcaster-plugin/miniapp";
- * 
- * export const auth = betterAuth({
- *     plugins: [
- *         farcasterMiniappAuth({
- *             domain: "https://example.com",
- *         }),
- *     ],
- * });
- * ```
+ * Create the schema, endpoints, rate limits and hooks of the Miniapp flow
+ * Used by `farcasterMiniappAuth` and the combined `farcasterAuth` plugin
+ * @param shared - Shared plugin options
+ * @param flowOptions - Miniapp flow options
  */
-export const farcasterMiniappAuth = (options: FarcasterMiniappPluginOptions): BetterAuthPlugin => {
-    const client = createClient();
-    const domain = getDomainFromUrl(options.domain);
-
-    const cookieOptions = {
-        secure: true,
-        sameSite: "none" as const,
-        httpOnly: true,
-        path: "/",
-        ...options.cookieOptions,
+export function createMiniappFlow(shared: FarcasterShared, flowOptions: FarcasterMiniappFlowOptions = {}) {
+    const verifyToken = createQuickAuthVerifier(shared.resolveDomain, flowOptions.quickAuth);
+
+    const cookieOptions = resolveCookieOptions(
+        { sameSite: "none" },
+        shared.options.cookieOptions,
+        flowOptions.cookieOptions
+    );
+
+    const getAppClient = createAppClientLoader();
+    const getSiweUri = createSiweUriResolver(flowOptions.siweUri);
+
+    /**
+     * Sign in a verified FID: access policy, `beforeSignIn`, user and session
+     * Shared by the Quick Auth and SIWF message sign-in endpoints
+     */
+    const completeSignIn = async (
+        ctx: EndpointContext,
+        fid: number,
+        context: z.infer<typeof launchContextSchema>
+    ) => {
+        await checkAccessPolicy(shared.options.accessPolicy, { fid, flow: "miniapp", action: "signIn", request: ctx.request });
+
+        const redirectUrl = await runBeforeSignIn(shared, { fid, flow: "miniapp", request: ctx.request });
+        if (redirectUrl) {
+            const redirect: FarcasterRedirectResponse = { redirect: true, url: redirectUrl };
+            return ctx.json(redirect);
+        }
+
+        const { user, isNewUser } = await resolveFarcasterUser(ctx.context, shared, { fid, flow: "miniapp" });
+        const session = await createFarcasterSession(
+            ctx,
+            user,
+            cookieOptions,
+            flowOptions.launchContext ? toLaunchContextFields(context) : undefined
+        );
+        await runAfterSignIn(ctx.context, shared, { user, session, fid, flow: "miniapp", request: ctx.request }, isNewUser);
+        await recordAuthEvent(ctx, {
+            type: isNewUser ? "sign_up" : "sign_in",
+            outcome: "success",
+            fid,
+            userId: user.id,
+            flow: "miniapp",
+        });
+
+        return ctx.json({
+            user: user as unknown as FarcasterUser,
+            session,
+            emailRequired: isEmailRequired(shared, user),
+            // Same value as the signed session cookie
+            ...(flowOptions.bearerToken ? {
+                token: `${session.token}.${await makeSignature(session.token, ctx.context.secret)}`,
+            } : {}),
+        });
     };
 
-    return {
-        id: "farcaster-miniapp",
-        schema: {
-            user: {
-                fields: {
-                    fid: {
-                        type: "number",
-                        unique: true,
-                        required: false,
-                    },
-                },
-            },
-        },
-        endpoints: {
-            /**
-             * Sign in with Farcaster Quick Auth token
-             */
-            signIn: createAuthEndpoint(
-                "/farcaster-miniapp/sign-in",
-                {
-                    method: "POST",
-                    body: signInSchema,
-                    metadata: {
-                        openapi: {
-                            summary: "Sign in with Farcaster",
-                            description: "Authenticate a user using a Farcaster Quick Auth token",
-                            tags: ["Farcaster"],
-                        },
-                    },
-                },
-                async (ctx) => {
-                    const { token } = ctx.body;
+    /**
+     * Record a failed sign-in and turn the error into an APIError
+     */
+    const failSignIn = async (ctx: EndpointContext, error: unknown, fid: number | undefined): Promise<never> => {
+        await recordAuthFailure(ctx, error, {
+            type: fid ? "sign_in" : "verification_failed",
+            fid,
+            flow: "miniapp",
+        });
+
+        if (error instanceof APIError) {
+            throw error;
+        }
 
-                    try {
-                        const payload = await client.verifyJwt({
-                            token,
-                            domain,
-                        });
+        if (error instanceof Errors.InvalidTokenError) {
+            throw new APIError("UNAUTHORIZED", {
+                message: "Invalid or expired Farcaster token",
+            });
+        }
 
-                        const fid = payload.sub;
-
-                        if (!fid) {
-                            throw new APIError("BAD_REQUEST", {
-                                message: "Invalid token: no FID found",
-                            });
-                        }
-
-                        // Check if user already exists with this FID
-                        const existingUser = await ctx.context.adapter.findOne({
-                            model: "user",
-                            where: [
-                                {
-                                    field: "fid",
-                                    value: fid,
-                                },
-                            ],
-                        }) as UserRecord | null;
-
-                        let user: UserRecord;
-
-                        if (existingUser) {
-                            user = existingUser;
-                        } else {
-                            // Resolve additional user data if provided
-                            const additionalData = options.resolveUserData
-                                ? await options.resolveUserData(fid)
-                                : { name: undefined, email: undefined, image: undefined };
-
-                            // Create new user with FID
-                            const createdUser = await ctx.context.adapter.create({
-                                model: "user",
-                                data: {
-                                    fid,
-                                    email: additionalData.email || `${fid}@farcaster.local`,
-                                    name: additionalData.name || `Farcaster User ${fid}`,
-                                    image: additionalData.image,
-                                    emailVerified: true,
-                                },
-                            }) as UserRecord;
-                            user = createdUser;
-                        }
-
-                        // Create or update account in the account table
-                        const existingAccount = await ctx.context.adapter.findOne({
-                            model: "account",
-                            where: [
-                                { field: "providerId", value: "Farcaster" },
-                                { field: "accountId", value: String(fid) },
-                            ],
-                        });
+        ctx.context.logger.error("Farcaster auth error:", error);
 
-                        if (!existingAccount) {
-                            await ctx.context.adapter.create({
-                                model: "account",
-                                data: {
-                                    accountId: String(fid),
-                                    providerId: "Farcaster",
-                                    userId: user.id,
-                                },
-                            });
-                        }
-
-                        // Create session for the user
-                        const session = await ctx.context.internalAdapter.createSession(
-                            user.id,
-                            false // rememberMe = true (dontRememberMe = false)
-                        );
-
-                        if (!session) {
-                            throw new APIError("INTERNAL_SERVER_ERROR", {
-                                message: "Failed to create session",
-                            });
-                        }
-
-                        await setSessionCookie(
-                            ctx,
-                            {
-                                session,
-                                user: user as unknown as FarcasterUser,
-                            },
-                            false,
-                            cookieOptions
-                        );
-
-                        return ctx.json({
-                            user: user as unknown as FarcasterUser,
-                            session,
-                        });
-                    } catch (error) {
-                        if (error instanceof APIError) {
-                            throw error;
-                        }
+        throw new APIError("INTERNAL_SERVER_ERROR", {
+            message: "Authentication failed",
+        });
+    };
 
-                        if (error instanceof Errors.InvalidTokenError) {
-                            throw new APIError("UNAUTHORIZED", {
-                                message: "Invalid or expired Farcaster token",
-                            });
-                        }
+    const endpoints = {
+        /**
+         * Sign in with Farcaster Quick Auth token
+         */
+        signIn: createAuthEndpoint(
+            "/farcaster-miniapp/sign-in",
+            {
+                method: "POST",
+                body: signInSchema,
+                metadata: {
+                    openapi: {
+                        summary: "Sign in with Farcaster",
+                        description: "Authenticate a user using a Farcaster Quick Auth token",
+                        tags: ["Farcaster"],
+                    },
+                },
+            },
+            async (ctx) => {
+                const { token, context } = ctx.body;
+                // Set once the token is verified
+                let fid: number | undefined;
 
-                        ctx.context.logger.error("Farcaster auth error:", error);
+                try {
+                    fid = (await verifyToken(token, ctx.request, ctx.headers, ctx.context.secondaryStorage)).fid;
 
-                        throw new APIError("INTERNAL_SERVER_ERROR", {
-                            message: "Authentication failed",
+                    if (!fid) {
+                        throw new APIError("BAD_REQUEST", {
+                            message: "Invalid token: no FID found",
                         });
                     }
+
+                    return await completeSignIn(ctx, fid, context);
+                } catch (error) {
+                    return failSignIn(ctx, error, fid);
                 }
-            ),
-
-            /**
-             * Link an existing account to a Farcaster FID
-             */
-            link: createAuthEndpoint(
-                "/farcaster-miniapp/link",
-                {
-                    method: "POST",
-                    body: linkAccountSchema,
-                    use: [sessionMiddleware],
-                    metadata: {
-                        openapi: {
-                            summary: "Link Farcaster account",
-                            description: "Link an existing account to a Farcaster FID",
-                            tags: ["Farcaster"],
-                        },
+            }
+        ),
+
+        /**
+         * Issue a nonce for a SIWF message (e.g. for the miniapp SDK's `actions.signIn`)
+         */
+        nonce: createAuthEndpoint(
+            "/farcaster-miniapp/nonce",
+            {
+                method: "GET",
+                metadata: {
+                    openapi: {
+                        summary: "Get sign-in nonce",
+                        description: "Issue a single-use nonce for a Sign In With Farcaster message",
+                        tags: ["Farcaster"],
                     },
                 },
-                async (ctx) => {
-                    const { token } = ctx.body;
-                    const session = ctx.context.session;
-
-                    try {
-                        const payload = await client.verifyJwt({
-                            token,
-                            domain,
-                        });
+            },
+            async (ctx) => {
+                const nonce = generateRandomString(32, "a-z", "A-Z", "0-9");
+                await ctx.context.internalAdapter.createVerificationValue({
+                    identifier: `${NONCE_IDENTIFIER_PREFIX}${nonce}`,
+                    value: nonce,
+                    expiresAt: new Date(Date.now() + NONCE_EXPIRES_IN * 1000),
+                });
+                return ctx.json({ nonce });
+            }
+        ),
+
+        /**
+         * Sign in with a SIWF message and signature, for hosts without Quick Auth
+         */
+        signInWithMessage: createAuthEndpoint(
+            "/farcaster-miniapp/sign-in-with-message",
+            {
+                method: "POST",
+                body: signInWithMessageSchema,
+                metadata: {
+                    openapi: {
+                        summary: "Sign in with a SIWF message",
+                        description: "Authenticate a user with a Sign In With Farcaster message and signature signed over a server-issued nonce",
+                        tags: ["Farcaster"],
+                    },
+                },
+            },
+            async (ctx) => {
+                const { message, signature, context } = ctx.body;
+                // Set once the message is verified
+                let fid: number | undefined;
+
+                try {
+                    const nonce = extractNonceFromMessage(message);
+                    const domain = await shared.resolveDomain(ctx.request, ctx.headers);
+                    const client = await getAppClient();
+
+                    const verifyResult = await client.verifySignInMessage({
+                        message,
+                        signature: signature as `0x${string}`,
+                        domain,
+                        nonce,
+                        // Hosts sign with an auth address rather than the custody address
+                        acceptAuthAddress: true,
+                    });
 
-                        const fid = payload.sub;
-
-                        if (!fid) {
-                            throw new APIError("BAD_REQUEST", {
-                                message: "Invalid token: no FID found",
-                            });
-                        }
-
-                        // Check if this FID is already linked to another account
-                        const existingUser = await ctx.context.adapter.findOne({
-                            model: "user",
-                            where: [
-                                {
-                                    field: "fid",
-                                    value: fid,
-                                },
-                            ],
-                        }) as UserRecord | null;
-
-                        if (existingUser && existingUser.id !== session.user.id) {
-                            throw new APIError("BAD_REQUEST", {
-                                message: "This Farcaster account is already linked to another user",
-                            });
-                        }
-
-                        // Update the user with the FID
-                        const updatedUser = await ctx.context.adapter.update({
-                            model: "user",
-                            where: [
-                                {
-                                    field: "id",
-                                    value: session.user.id,
-                                },
-                            ],
-                            update: {
-                                fid,
-                            },
-                        }) as UserRecord | null;
-
-                        if (!updatedUser) {
-                            throw new APIError("INTERNAL_SERVER_ERROR", {
-                                message: "Failed to update user",
-                            });
-                        }
-
-                        return ctx.json({
-                            success: true,
-                            user: updatedUser as unknown as FarcasterUser,
+                    if (verifyResult.isError || !verifyResult.success || typeof verifyResult.fid !== "number") {
+                        throw new APIError("UNAUTHORIZED", {
+                            message: "Invalid signature",
                         });
-                    } catch (error) {
-                        if (error instanceof APIError) {
-                            throw error;
-                        }
-
-                        if (error instanceof Errors.InvalidTokenError) {
-                            throw new APIError("UNAUTHORIZED", {
-                                message: "Invalid or expired Farcaster token",
-                            });
-                        }
+                    }
 
-                        ctx.context.logger.error("Farcaster link error:", error);
+                    checkMessagePolicy(message, {
+                        fid: verifyResult.fid,
+                        siweUri: getSiweUri(domain),
+                        domain,
+                        policy: flowOptions.messagePolicy,
+                    });
 
-                        throw new APIError("INTERNAL_SERVER_ERROR", {
-                            message: "Failed to link Farcaster account",
+                    // Only accept a nonce we issued, and burn it
+                    const record = nonce
+                        ? await ctx.context.internalAdapter.consumeVerificationValue(`${NONCE_IDENTIFIER_PREFIX}${nonce}`)
+                        : null;
+                    if (!record || new Date(record.expiresAt).getTime() < Date.now()) {
+                        throw new APIError("UNAUTHORIZED", {
+                            message: "Invalid or expired nonce",
+                            code: "INVALID_NONCE",
                         });
                     }
+                    fid = verifyResult.fid;
+
+                    return await completeSignIn(ctx, fid, context);
+                } catch (error) {
+                    return failSignIn(ctx, error, fid);
                 }
-            ),
-
-            /**
-             * Unlink Farcaster from the current account
-             */
-            unlink: createAuthEndpoint(
-                "/farcaster-miniapp/unlink",
-                {
-                    method: "POST",
-                    use: [sessionMiddleware],
-                    metadata: {
-                        openapi: {
-                            summary: "Unlink Farcaster account",
-                            description: "Remove Farcaster FID from the current account",
-                            tags: ["Farcaster"],
-                        },
+            }
+        ),
+
+        /**
+         * Link an existing account to a Farcaster FID
+         */
+        link: createAuthEndpoint(
+            "/farcaster-miniapp/link",
+            {
+                method: "POST",
+                body: linkAccountSchema,
+                use: [sessionMiddleware],
+                metadata: {
+                    openapi: {
+                        summary: "Link Farcaster account",
+                        description: "Link an existing account to a Farcaster FID",
+                        tags: ["Farcaster"],
                     },
                 },
-                async (ctx) => {
-                    const session = ctx.context.session;
-                    const currentUser = session.user as FarcasterUser;
+            },
+            async (ctx) => {
+                const { token } = ctx.body;
+                const session = ctx.context.session;
+                // Set once the token is verified
+                let fid: number | undefined;
+
+                try {
+                    fid = (await verifyToken(token, ctx.request, ctx.headers, ctx.context.secondaryStorage)).fid;
 
-                    if (!currentUser.fid) {
+                    if (!fid) {
                         throw new APIError("BAD_REQUEST", {
-                            message: "No Farcaster account linked",
+                            message: "Invalid token: no FID found",
                         });
                     }
 
-                    const updatedUser = await ctx.context.adapter.update({
-                        model: "user",
-                        where: [
-                            {
-                                field: "id",
-                                value: session.user.id,
-                            },
-                        ],
-                        update: {
-                            fid: null,
-                        },
-                    }) as UserRecord | null;
+                    await checkAccessPolicy(shared.options.accessPolicy, { fid, flow: "miniapp", action: "link", request: ctx.request });
+
+                    // Set the FID and create the account row together
+                    const updatedUser = await linkFarcasterAccount(ctx.context.adapter, {
+                        userId: session.user.id,
+                        fid,
+                        providerId: shared.providerId,
+                    });
 
                     if (!updatedUser) {
                         throw new APIError("INTERNAL_SERVER_ERROR", {
@@ -499,59 +502,144 @@ export const farcasterMiniappAuth = (options: FarcasterMiniappPluginOptions): Be
                         });
                     }
 
+                    await syncFarcasterProfile(ctx.context, shared, { userId: updatedUser.id, fid });
+                    await runAfterLink(ctx.context, shared, {
+                        user: updatedUser,
+                        session: session.session,
+                        fid,
+                        flow: "miniapp",
+                        request: ctx.request,
+                    });
+                    await recordAuthEvent(ctx, {
+                        type: "link",
+                        outcome: "success",
+                        fid,
+                        userId: updatedUser.id,
+                        flow: "miniapp",
+                    });
+
                     return ctx.json({
                         success: true,
                         user: updatedUser as unknown as FarcasterUser,
                     });
-                }
-            ),
-
-            /**
-             * Get the Farcaster profile for the current user
-             */
-            profile: createAuthEndpoint(
-                "/farcaster-miniapp/profile",
-                {
-                    method: "GET",
-                    use: [sessionMiddleware],
-                    metadata: {
-                        openapi: {
-                            summary: "Get Farcaster profile",
-                            description: "Get the Farcaster FID and user data for the authenticated user",
-                            tags: ["Farcaster"],
-                        },
-                    },
-                },
-                async (ctx) => {
-                    const session = ctx.context.session;
-                    const currentUser = session.user as FarcasterUser;
+                } catch (error) {
+                    await recordAuthFailure(ctx, error, {
+                        type: fid ? "link" : "verification_failed",
+                        fid,
+                        userId: session.user.id,
+                        flow: "miniapp",
+                    });
 
-                    if (!currentUser?.fid) {
-                        throw new APIError("BAD_REQUEST", {
-                            message: "No Farcaster FID found for user",
+                    if (error instanceof APIError) {
+                        throw error;
+                    }
+
+                    if (error instanceof Errors.InvalidTokenError) {
+                        throw new APIError("UNAUTHORIZED", {
+                            message: "Invalid or expired Farcaster token",
                         });
                     }
 
-                    return ctx.json({
-                        fid: currentUser.fid,
-                        user: currentUser,
+                    ctx.context.logger.error("Farcaster link error:", error);
+
+                    throw new APIError("INTERNAL_SERVER_ERROR", {
+                        message: "Failed to link Farcaster account",
                     });
                 }
-            ),
+            }
+        ),
+
+        /**
+         * Unlink Farcaster from the current account
+         */
+        unlink: createUnlinkEndpoint("/farcaster-miniapp/unlink", shared, "miniapp"),
+
+        /**
+         * Get the Farcaster profile for the current user
+         */
+        profile: createProfileEndpoint("/farcaster-miniapp/profile", shared),
+
+        /**
+         * Attach a real email to a Farcaster user
+         */
+        attachEmail: createAttachEmailEndpoint("/farcaster-miniapp/attach-email", shared),
+
+        /**
+         * List audit log entries (only when `auditLog` is on)
+         */
+        ...(shared.auditLog ? {
+            auditEvents: createAuditEventsEndpoint("/farcaster-miniapp/audit-events", shared),
+        } : {}),
+
+        /**
+         * Receive miniapp webhook events from Farcaster clients, and send notifications
+         * from the server (only with `notifications`)
+         */
+        ...(flowOptions.notifications ? {
+            webhook: createMiniappWebhookEndpoint("/farcaster-miniapp/webhook", flowOptions.notifications),
+            sendNotification: createSendNotificationEndpoint("/farcaster-miniapp/send-notification"),
+        } : {}),
+    };
+
+    // Rate limiting for authentication endpoints
+    const rateLimit = [
+        {
+            pathMatcher: (path: string) => path === "/farcaster-miniapp/sign-in" || path === "/farcaster-miniapp/sign-in-with-message",
+            max: 10,
+            window: 60, // 10 requests per minute
+        },
+        {
+            pathMatcher: (path: string) => path === "/farcaster-miniapp/nonce",
+            max: 20,
+            window: 60, // 20 requests per minute
+        },
+        {
+            pathMatcher: (path: string) => path === "/farcaster-miniapp/link",
+            max: 5,
+            window: 60, // 5 requests per minute
         },
+    ];
 
-        // Rate limiting for authentication endpoints
-        rateLimit: [
-            {
-                pathMatcher: (path: string) => path === "/farcaster-miniapp/sign-in",
-                max: 10,
-                window: 60, // 10 requests per minute
-            },
-            {
-                pathMatcher: (path: string) => path === "/farcaster-miniapp/link",
-                max: 5,
-                window: 60, // 5 requests per minute
-            },
-        ],
-    };
+    // Better Auth's bearer plugin hooks: turn `Authorization: Bearer` into the session cookie on every endpoint
+    const hooks = flowOptions.bearerToken ? bearer().hooks : undefined;
+
+    const schema = mergeSchemas(
+        flowOptions.notifications ? farcasterNotificationSchema : undefined,
+        flowOptions.launchContext ? farcasterLaunchContextSchema : undefined
+    );
+
+    return { schema, endpoints, rateLimit, hooks };
+}
+
+/**
+ * Farcaster Miniapp authentication plugin for Better Auth
+ * Uses Farcaster Quick Auth to verify JWT tokens from miniapp context
+ * 
+ * To run both the Miniapp and SIWF flows, use the combined `farcasterAuth` plugin instead.
+ * 
+ * @example
+ * ```ts
+ * import { farcasterMiniappAuth } from "better-auth-farcaster-plugin/miniapp";
+ * 
+ * export const auth = betterAuth({
+ *     plugins: [
+ *         farcasterMiniappAuth({
+ *             domain: "https://example.com",
+ *         }),
+ *     ],
+ * });
+ * ```
+ */
+export const farcasterMiniappAuth = (options: FarcasterMiniappPluginOptions) => {
+    const shared = createShared(options);
+    const { schema, endpoints, rateLimit, hooks } = createMiniappFlow(shared, options);
+
+    return {
+        id: "farcaster-miniapp",
+        init: createSharedInit(shared),
+        schema: mergeSchemas(getSharedSchema(shared), schema),
+        endpoints,
+        rateLimit,
+        hooks,
+    } satisfies BetterAuthPlugin;
 };
@@ -0,0 +1,184 @@
+/**
+ * Farcaster profiles shared by the Miniapp and Core plugins
+ * Keeps the identity data received at sign-in in the plugin's `farcasterProfile` model,
+ * so apps can read it back without calling Farcaster APIs
+ */
+import type { AuthContext } from "better-auth";
+import type { FarcasterProfile, FarcasterProfileData, FarcasterProfileSyncPolicy } from "./types";
+
+type Adapter = AuthContext["adapter"];
+
+const PROFILE_MODEL = "farcasterProfile";
+
+// Database representation - address lists and synced user fields are stored as JSON strings
+type FarcasterProfileRecord = Omit<FarcasterProfile, "verifiedEthAddresses" | "verifiedSolAddresses"> & {
+    verifiedEthAddresses?: string | null;
+    verifiedSolAddresses?: string | null;
+    syncedUserFields?: string | null;
+};
+
+/**
+ * Stored profile together with the user column values the plugin last wrote
+ * `syncedUserFields` is null for rows written before user edits were tracked
+ */
+export interface FarcasterProfileState {
+    profile: FarcasterProfile;
+    syncedUserFields: Record<string, unknown> | null;
+}
+
+/**
+ * Database schema for the `farcasterProfile` model, one row per user with an FID
+ */
+export const farcasterProfileSchema = {
+    farcasterProfile: {
+        fields: {
+            userId: {
+                type: "string",
+                unique: true,
+                required: true,
+                references: { model: "user", field: "id", onDelete: "cascade" },
+            },
+            fid: { type: "number", unique: true, required: true },
+            username: { type: "string", required: false },
+            displayName: { type: "string", required: false },
+            pfpUrl: { type: "string", required: false },
+            bio: { type: "string", required: false },
+            custodyAddress: { type: "string", required: false },
+            verifiedEthAddresses: { type: "string", required: false },
+            verifiedSolAddresses: { type: "string", required: false },
+            lastSyncedAt: { type: "date", required: true },
+            // User column values last written by the plugin, to tell user edits apart
+            syncedUserFields: { type: "string", required: false },
+        },
+    },
+} as const;
+
+function fromRecord(record: FarcasterProfileRecord): FarcasterProfile {
+    return {
+        id: record.id,
+        userId: record.userId,
+        fid: record.fid,
+        username: record.username ?? null,
+        displayName: record.displayName ?? null,
+        pfpUrl: record.pfpUrl ?? null,
+        bio: record.bio ?? null,
+        custodyAddress: record.custodyAddress ?? null,
+        verifiedEthAddresses: record.verifiedEthAddresses ? JSON.parse(record.verifiedEthAddresses) : [],
+        verifiedSolAddresses: record.verifiedSolAddresses ? JSON.parse(record.verifiedSolAddresses) : [],
+        lastSyncedAt: new Date(record.lastSyncedAt),
+    };
+}
+
+/**
+ * Split the verified addresses reported by the SIWF relay into Ethereum and Solana addresses
+ * @param verifications - Verified addresses from the channel status
+ */
+export function splitVerifications(verifications: string[] | undefined): Pick<FarcasterProfileData, "verifiedEthAddresses" | "verifiedSolAddresses"> {
+    if (!verifications) {
+        return {};
+    }
+    return {
+        verifiedEthAddresses: verifications.filter((address) => /^0x[0-9a-fA-F]{40}$/.test(address)),
+        verifiedSolAddresses: verifications.filter((address) => !address.startsWith("0x")),
+    };
+}
+
+/**
+ * Get the stored Farcaster profile of a user
+ * @returns The profile, or null if none has been synced
+ */
+export async function findFarcasterProfile(
+    adapter: Pick<Adapter, "findOne">,
+    userId: string
+): Promise<FarcasterProfile | null> {
+    const state = await findFarcasterProfileState(adapter, userId);
+    return state ? state.profile : null;
+}
+
+/**
+ * Get the stored Farcaster profile of a user with its sync state
+ * @returns The profile state, or null if none has been synced
+ */
+export async function findFarcasterProfileState(
+    adapter: Pick<Adapter, "findOne">,
+    userId: string
+): Promise<FarcasterProfileState | null> {
+    const record = await adapter.findOne<FarcasterProfileRecord>({
+        model: PROFILE_MODEL,
+        where: [{ field: "userId", value: userId }],
+    });
+    if (!record) {
+        return null;
+    }
+    return {
+        profile: fromRecord(record),
+        syncedUserFields: record.syncedUserFields ? JSON.parse(record.syncedUserFields) : null,
+    };
+}
+
+/**
+ * Check whether a sync policy asks for a returning user's profile to be synced again
+ * @param policy - The `profileSync.policy` option
+ * @param lastSyncedAt - When the profile was last synced, or null if it never was
+ */
+export function isProfileSyncDue(policy: FarcasterProfileSyncPolicy, lastSyncedAt: Date | null): boolean {
+    if (policy === "never" || policy === "onCreate") {
+        return false;
+    }
+    if (policy === "onEverySignIn" || !lastSyncedAt) {
+        return true;
+    }
+    return Date.now() - lastSyncedAt.getTime() >= policy.ifStaleAfter;
+}
+
+/**
+ * Create or update the Farcaster profile of a user
+ * Fields missing from `data` keep their stored value
+ * @param adapter - Adapter (or transaction adapter) to write with
+ * @param params.userId - The user owning the FID
+ * @param params.fid - The Farcaster ID
+ * @param params.data - Profile fields to store
+ * @param params.syncedUserFields - User column values just written by the plugin; new rows default to none
+ */
+export async function upsertFarcasterProfile(
+    adapter: Pick<Adapter, "findOne" | "create" | "update" | "deleteMany">,
+    params: { userId: string; fid: number; data: FarcasterProfileData; syncedUserFields?: Record<string, unknown> }
+): Promise<FarcasterProfile> {
+    const { verifiedEthAddresses, verifiedSolAddresses, ...fields } = params.data;
+    const update: Record<string, unknown> = { fid: params.fid, lastSyncedAt: new Date() };
+    for (const [key, value] of Object.entries(fields)) {
+        if (value !== undefined) update[key] = value;
+    }
+    if (verifiedEthAddresses) update.verifiedEthAddresses = JSON.stringify(verifiedEthAddresses);
+    if (verifiedSolAddresses) update.verifiedSolAddresses = JSON.stringify(verifiedSolAddresses);
+    if (params.syncedUserFields) update.syncedUserFields = JSON.stringify(params.syncedUserFields);
+
+    // A stale row left on another user would block the unique FID
+    await adapter.deleteMany({
+        model: PROFILE_MODEL,
+        where: [
+            { field: "fid", value: params.fid },
+            { field: "userId", operator: "ne", value: params.userId },
+        ],
+    });
+
+    const existing = await adapter.findOne<FarcasterProfileRecord>({
+        model: PROFILE_MODEL,
+        where: [{ field: "userId", value: params.userId }],
+    });
+
+    if (existing) {
+        const updated = await adapter.update<FarcasterProfileRecord>({
+            model: PROFILE_MODEL,
+            where: [{ field: "id", value: existing.id }],
+            update,
+        });
+        return fromRecord(updated ?? { ...existing, ...update } as FarcasterProfileRecord);
+    }
+
+    const created = await adapter.create<Record<string, unknown>, FarcasterProfileRecord>({
+        model: PROFILE_MODEL,
+        data: { userId: params.userId, syncedUserFields: "{}", ...update },
+    });
+    return fromRecord(created);
+}
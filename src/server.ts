@@ -0,0 +1,122 @@
+import type { BetterAuthPlugin } from "better-auth";
+import { createShared, createSharedInit, getSharedSchema, mergeSchemas } from "./shared";
+import {
+    createMiniappFlow,
+    farcasterMiniappAuth,
+    type FarcasterMiniappFlowOptions,
+} from "./miniapp/server";
+import { createSIWFFlow } from "./core/server";
+import type { FarcasterSIWFOptions } from "./core/types";
+import type { FarcasterSharedOptions } from "./types";
+
+/**
+ * Plugin options for the combined Farcaster plugin
+ * Shared options apply to both flows; each flow is enabled by passing its sub-options
+ */
+export interface FarcasterAuthPluginOptions extends FarcasterSharedOptions {
+    /**
+     * Enable the Miniapp (Quick Auth) flow under `/farcaster-miniapp/*`
+     * Pass `true` for the defaults, or the flow's options
+     */
+    miniapp?: boolean | FarcasterMiniappFlowOptions;
+    /**
+     * Enable the SIWF (Sign In With Farcaster) flow under `/farcaster/*`
+     */
+    siwf?: FarcasterSIWFOptions;
+}
+
+/**
+ * Combined Farcaster authentication plugin for Better Auth
+ * Runs the Miniapp (Quick Auth) and SIWF flows in one plugin, sharing the `user.fid`
+ * schema, user resolution, account rows and cookie settings.
+ *
+ * The endpoint paths are the same as with `farcasterMiniappAuth` and `farcasterCoreAuth`, so the
+ * existing clients and hooks keep working. On `auth.api`, the Miniapp endpoints are named
+ * `signInMiniapp`, `nonceMiniapp`, `signInWithMessageMiniapp`, `linkMiniapp`, `unlinkMiniapp`, `profileMiniapp`, `attachEmailMiniapp`
+ * (with `auditLog`) `auditEventsMiniapp`, and (with `notifications`) `webhookMiniapp` and `sendNotificationMiniapp`.
+ *
+ * For backward compatibility, options without `miniapp` or `siwf` set up the Miniapp flow only,
+ * exactly like `farcasterMiniappAuth`.
+ *
+ * @example
+ * ```ts
+ * import { farcasterAuth } from "better-auth-farcaster-plugin";
+ *
+ * export const auth = betterAuth({
+ *     plugins: [
+ *         farcasterAuth({
+ *             domain: "example.com",
+ *             miniapp: true,
+ *             siwf: { siweUri: "https://example.com/login" },
+ *         }),
+ *     ],
+ * });
+ * ```
+ */
+export const farcasterAuth = <O extends FarcasterAuthPluginOptions>(options: O): FarcasterAuthPlugin<O> => {
+    if (options.miniapp === undefined && options.siwf === undefined) {
+        return farcasterMiniappAuth(options) as FarcasterAuthPlugin<O>;
+    }
+
+    const shared = createShared(options);
+    const miniapp = options.miniapp
+        ? createMiniappFlow(shared, options.miniapp === true ? {} : options.miniapp)
+        : null;
+    const siwf = options.siwf ? createSIWFFlow(shared, options.siwf) : null;
+
+    return {
+        id: "farcaster",
+        init: createSharedInit(shared),
+        schema: mergeSchemas(getSharedSchema(shared), siwf?.schema, miniapp?.schema),
+        endpoints: {
+            ...siwf?.endpoints,
+            ...(miniapp ? renameMiniappEndpoints(miniapp.endpoints) : {}),
+        } as FarcasterAuthEndpoints<O>,
+        rateLimit: [
+            ...(siwf?.rateLimit || []),
+            ...(miniapp?.rateLimit || []),
+        ],
+        hooks: miniapp?.hooks,
+    } satisfies BetterAuthPlugin as FarcasterAuthPlugin<O>;
+};
+
+/**
+ * Name the Miniapp endpoints apart from the SIWF ones sharing the plugin
+ */
+function renameMiniappEndpoints(endpoints: ReturnType<typeof createMiniappFlow>["endpoints"]) {
+    return {
+        signInMiniapp: endpoints.signIn,
+        nonceMiniapp: endpoints.nonce,
+        signInWithMessageMiniapp: endpoints.signInWithMessage,
+        linkMiniapp: endpoints.link,
+        unlinkMiniapp: endpoints.unlink,
+        profileMiniapp: endpoints.profile,
+        attachEmailMiniapp: endpoints.attachEmail,
+        ...("auditEvents" in endpoints ? { auditEventsMiniapp: endpoints.auditEvents } : {}),
+        ...("webhook" in endpoints ? { webhookMiniapp: endpoints.webhook } : {}),
+        ...("sendNotification" in endpoints ? { sendNotificationMiniapp: endpoints.sendNotification } : {}),
+    };
+}
+
+/**
+ * Endpoints of the combined plugin, for the flows enabled in its options
+ */
+type FarcasterAuthEndpoints<O extends FarcasterAuthPluginOptions> =
+    & (O extends { siwf: FarcasterSIWFOptions } ? ReturnType<typeof createSIWFFlow>["endpoints"] : {})
+    & (O extends { miniapp: true | FarcasterMiniappFlowOptions } ? ReturnType<typeof renameMiniappEndpoints> : {});
+
+/**
+ * The plugin returned by `farcasterAuth`: the Miniapp plugin when neither flow is set,
+ * otherwise the combined plugin with the enabled flows' endpoints
+ */
+export type FarcasterAuthPlugin<O extends FarcasterAuthPluginOptions> =
+    O extends { miniapp: {} } | { siwf: {} }
+        ? {
+            id: "farcaster";
+            init: ReturnType<typeof createSharedInit>;
+            schema: ReturnType<typeof mergeSchemas>;
+            endpoints: FarcasterAuthEndpoints<O>;
+            rateLimit: ReturnType<typeof createMiniappFlow>["rateLimit"];
+            hooks: ReturnType<typeof createMiniappFlow>["hooks"];
+        }
+        : ReturnType<typeof farcasterMiniappAuth>;
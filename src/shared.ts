@@ -0,0 +1,673 @@
+/**
+ * Building blocks shared by the Miniapp (Quick Auth) and Core (SIWF) flows
+ * Each flow verifies its own credential, then resolves users, sessions and
+ * account rows through these helpers so both flows behave the same way
+ */
+import type { AuthContext, BetterAuthPlugin, Session } from "better-auth";
+import { APIError, createAuthEndpoint, sendVerificationEmailFn, sessionMiddleware } from "better-auth/api";
+import { setSessionCookie } from "better-auth/cookies";
+import { getAuthTables } from "better-auth/db";
+import { z } from "zod";
+import { DEFAULT_FARCASTER_PROVIDER_ID, ensureFarcasterAccount, unlinkFarcasterAccount } from "./accounts";
+import { farcasterAuthEventSchema, recordAuthEvent, resolveAuditLogOptions } from "./audit";
+import { createDomainResolver } from "./domain";
+import { getLaunchContext } from "./miniapp/launch-context";
+import {
+    farcasterProfileSchema,
+    findFarcasterProfile,
+    findFarcasterProfileState,
+    isProfileSyncDue,
+    upsertFarcasterProfile,
+} from "./profiles";
+import { createFarcasterUser } from "./users";
+import { dispatchWebhookEvent, farcasterWebhookDeadLetterSchema } from "./webhooks";
+import type {
+    FarcasterAuditLogOptions,
+    FarcasterAuthFlow,
+    FarcasterCookieOptions,
+    FarcasterEmailStrategy,
+    FarcasterProfileData,
+    FarcasterProfileSyncOptions,
+    FarcasterSharedOptions,
+    FarcasterUser,
+} from "./types";
+
+type EndpointContext = Parameters<typeof setSessionCookie>[0];
+
+// Type for user records from the adapter
+type UserRecord = { id: string;[key: string]: unknown };
+
+/**
+ * Resolved shared options, created once per plugin instance
+ */
+export interface FarcasterShared {
+    options: FarcasterSharedOptions;
+    providerId: string;
+    resolveDomain: ReturnType<typeof createDomainResolver>;
+    profileSync: Required<FarcasterProfileSyncOptions>;
+    emailStrategy: FarcasterEmailStrategy;
+    /**
+     * Audit log options, or null when the audit log is off
+     */
+    auditLog: FarcasterAuditLogOptions | null;
+}
+
+/**
+ * Resolve the options shared by both flows
+ */
+export function createShared(options: FarcasterSharedOptions): FarcasterShared {
+    return {
+        options,
+        providerId: options.providerId || DEFAULT_FARCASTER_PROVIDER_ID,
+        resolveDomain: createDomainResolver(options),
+        profileSync: {
+            policy: options.profileSync?.policy ?? "onCreate",
+            fields: options.profileSync?.fields ?? { name: "displayName", image: "pfpUrl" },
+            preserveUserEdits: options.profileSync?.preserveUserEdits ?? true,
+        },
+        emailStrategy: options.emailStrategy ?? { type: "placeholder" },
+        auditLog: resolveAuditLogOptions(options.auditLog),
+    };
+}
+
+/**
+ * Plugin `init` shared by both flows, checking options against the rest of the Better Auth config
+ * @throws Error if `emailStrategy` is `none` but the user table requires an email
+ */
+export function createSharedInit(shared: FarcasterShared): (context: AuthContext) => void {
+    return (context) => {
+        if (shared.emailStrategy.type === "none" && getAuthTables(context.options).user.fields.email?.required !== false) {
+            throw new Error(
+                'emailStrategy "none" needs a nullable email column: set user.additionalFields.email to { type: "string", required: false, unique: true }'
+            );
+        }
+    };
+}
+
+/**
+ * Schema shared by both flows: the `fid` column on Better Auth's user table
+ * and the `farcasterProfile` model
+ */
+export const farcasterSchema = {
+    user: {
+        fields: {
+            fid: {
+                type: "number",
+                unique: true,
+                required: false,
+            },
+        },
+    },
+    ...farcasterProfileSchema,
+} as const;
+
+/**
+ * Schema shared by both flows, with the `farcasterAuthEvent` model when `auditLog` is on
+ * and the `farcasterWebhookDeadLetter` model when `webhooks` is set
+ */
+export function getSharedSchema(shared: FarcasterShared) {
+    return {
+        ...farcasterSchema,
+        ...(shared.auditLog ? farcasterAuthEventSchema : {}),
+        ...(shared.options.webhooks ? farcasterWebhookDeadLetterSchema : {}),
+    };
+}
+
+type PluginSchema = NonNullable<BetterAuthPlugin["schema"]>;
+
+/**
+ * Merge plugin schemas, combining the fields of models that appear in more than one
+ */
+export function mergeSchemas(...schemas: (PluginSchema | undefined)[]): PluginSchema {
+    const merged: PluginSchema = {};
+    for (const schema of schemas) {
+        for (const [model, definition] of Object.entries(schema || {})) {
+            merged[model] = merged[model]
+                ? { ...merged[model], ...definition, fields: { ...merged[model].fields, ...definition.fields } }
+                : definition;
+        }
+    }
+    return merged;
+}
+
+/**
+ * Merge cookie settings: the flow's defaults, then the shared options, then the flow's own options
+ */
+export function resolveCookieOptions(
+    defaults: { sameSite: "strict" | "lax" | "none" },
+    ...overrides: (FarcasterCookieOptions | undefined)[]
+) {
+    return Object.assign(
+        {
+            secure: true,
+            sameSite: defaults.sameSite,
+            httpOnly: true,
+            path: "/",
+        },
+        ...overrides
+    ) as Required<FarcasterCookieOptions>;
+}
+
+const DEFAULT_PLACEHOLDER_DOMAIN = "farcaster.local";
+
+/**
+ * Email of a new user without one, as `emailStrategy` says (null for `none`)
+ */
+function getPlaceholderEmail(shared: FarcasterShared, fid: number): string | null {
+    const strategy = shared.emailStrategy;
+    return strategy.type === "none" ? null : `${fid}@${strategy.domain || DEFAULT_PLACEHOLDER_DOMAIN}`;
+}
+
+/**
+ * Check whether an email is missing or a placeholder given by the plugin
+ * Placeholders on the default domain always count, since versions before `emailStrategy` gave every user one
+ */
+function isPlaceholderEmail(shared: FarcasterShared, email: string | null | undefined): boolean {
+    if (!email) {
+        return true;
+    }
+    const strategy = shared.emailStrategy;
+    const domain = (strategy.type !== "none" && strategy.domain) || DEFAULT_PLACEHOLDER_DOMAIN;
+    const lower = email.toLowerCase();
+    return lower.endsWith(`@${domain.toLowerCase()}`) || lower.endsWith(`@${DEFAULT_PLACEHOLDER_DOMAIN}`);
+}
+
+/**
+ * Whether a user should be asked for an email, under `emailStrategy: { type: "prompt" }`
+ */
+export function isEmailRequired(shared: FarcasterShared, user: { id: string; email?: unknown }): boolean {
+    return shared.emailStrategy.type === "prompt" &&
+        isPlaceholderEmail(shared, typeof user.email === "string" ? user.email : null);
+}
+
+/**
+ * Merge the profile fields a flow received with those from the `resolveProfile` option
+ * Fields received from the flow take precedence
+ */
+async function resolveProfileData(
+    shared: FarcasterShared,
+    fid: number,
+    profile: FarcasterProfileData = {}
+): Promise<FarcasterProfileData> {
+    const resolved = shared.options.resolveProfile
+        ? await shared.options.resolveProfile(fid)
+        : undefined;
+
+    const data: FarcasterProfileData = { ...resolved };
+    for (const [key, value] of Object.entries(profile) as [keyof FarcasterProfileData, unknown][]) {
+        if (value === undefined) continue;
+        // An empty address list from the flow doesn't hide addresses from `resolveProfile`
+        if (Array.isArray(value) && value.length === 0 && data[key]) continue;
+        (data as Record<string, unknown>)[key] = value;
+    }
+    return data;
+}
+
+/**
+ * User column values mapped from profile data by `profileSync.fields`,
+ * overridden by `resolveUserData` when set
+ */
+async function getSyncedUserData(
+    shared: FarcasterShared,
+    fid: number,
+    data: FarcasterProfileData
+): Promise<{ values: Record<string, unknown>; email?: string; emailVerified?: boolean }> {
+    const values: Record<string, unknown> = {};
+    if (shared.profileSync.policy !== "never") {
+        for (const [column, field] of Object.entries(shared.profileSync.fields)) {
+            if (data[field]) values[column] = data[field];
+        }
+    }
+
+    const additionalData = shared.options.resolveUserData
+        ? await shared.options.resolveUserData(fid)
+        : {};
+    if (additionalData.name) values.name = additionalData.name;
+    if (additionalData.image) values.image = additionalData.image;
+
+    return { values, email: additionalData.email, emailVerified: additionalData.emailVerified };
+}
+
+/**
+ * Store the Farcaster profile of a user from the fields a flow received,
+ * filled in by the `resolveProfile` option when set
+ * User columns are left alone; new rows treat them as the user's own
+ * @param context - The Better Auth context of the current request
+ * @param shared - Shared plugin options
+ * @param params.userId - The user owning the FID
+ * @param params.fid - The verified Farcaster ID
+ * @param params.profile - Profile fields received with the FID, if any
+ */
+export async function syncFarcasterProfile(
+    context: AuthContext,
+    shared: FarcasterShared,
+    params: { userId: string; fid: number; profile?: FarcasterProfileData }
+) {
+    return upsertFarcasterProfile(context.adapter, {
+        userId: params.userId,
+        fid: params.fid,
+        data: await resolveProfileData(shared, params.fid, params.profile),
+    });
+}
+
+/**
+ * Find the user holding an FID, or create one, and make sure the account row exists
+ * The Farcaster profile and the user's mapped columns are synced as `profileSync` says
+ * @returns The user, and whether it was just created
+ * @param context - The Better Auth context of the current request
+ * @param shared - Shared plugin options
+ * @param params.fid - The verified Farcaster ID
+ * @param params.flow - The flow signing the user in
+ * @param params.profile - Profile fields received with the FID, if any
+ */
+export async function resolveFarcasterUser(
+    context: AuthContext,
+    shared: FarcasterShared,
+    params: { fid: number; flow: FarcasterAuthFlow; profile?: FarcasterProfileData }
+): Promise<{ user: UserRecord; isNewUser: boolean }> {
+    const { fid, flow, profile } = params;
+    const { options, providerId, profileSync } = shared;
+    const mappedColumns = Object.keys(profileSync.fields);
+
+    // Check if user already exists with this FID
+    const existingUser = await context.adapter.findOne<UserRecord>({
+        model: "user",
+        where: [{ field: "fid", value: fid }],
+    });
+
+    // Resolve everything to write up front, so the transaction below only writes
+    if (existingUser) {
+        const state = await findFarcasterProfileState(context.adapter, existingUser.id);
+        const syncDue = isProfileSyncDue(profileSync.policy, state?.profile.lastSyncedAt ?? null);
+        // The profile row is written if it's due or missing, and the user's columns only if due
+        const data = syncDue || !state ? await resolveProfileData(shared, fid, profile) : undefined;
+        const synced = syncDue && data ? await getSyncedUserData(shared, fid, data) : undefined;
+
+        const user = await context.adapter.transaction(async (trx) => {
+            let user = existingUser;
+
+            if (data) {
+                let syncedUserFields: Record<string, unknown> | undefined;
+
+                if (synced) {
+                    const { values } = synced;
+                    // Rows written before edits were tracked don't guard anything
+                    const previous = state?.syncedUserFields ?? null;
+                    const update: Record<string, unknown> = {};
+                    syncedUserFields = {};
+
+                    for (const column of new Set([...mappedColumns, ...Object.keys(values)])) {
+                        const current = existingUser[column] ?? null;
+                        const edited = profileSync.preserveUserEdits && previous !== null &&
+                            (!(column in previous) || previous[column] !== current);
+                        if (edited) continue;
+
+                        if (values[column] !== undefined && values[column] !== current) {
+                            update[column] = values[column];
+                        }
+                        syncedUserFields[column] = values[column] ?? current;
+                    }
+
+                    if (Object.keys(update).length > 0) {
+                        user = await trx.update<UserRecord>({
+                            model: "user",
+                            where: [{ field: "id", value: existingUser.id }],
+                            update,
+                        }) ?? { ...existingUser, ...update };
+                    }
+                }
+
+                await upsertFarcasterProfile(trx, {
+                    userId: user.id,
+                    fid,
+                    data,
+                    syncedUserFields,
+                });
+            }
+
+            // Create the account row if it's missing
+            await ensureFarcasterAccount(trx, { userId: user.id, fid, providerId });
+            return user;
+        });
+
+        return { user, isNewUser: false };
+    }
+
+    const data = await resolveProfileData(shared, fid, profile);
+    const { values, email, emailVerified } = await getSyncedUserData(shared, fid, data);
+
+    // The user, its profile and its account row are created together or not at all
+    const user = await context.adapter.transaction(async (trx) => {
+        const user = await createFarcasterUser(trx, {
+            fid,
+            flow,
+            generateUserId: options.generateUserId,
+            data: {
+                ...values,
+                fid,
+                email: email || getPlaceholderEmail(shared, fid),
+                name: values.name || (profileSync.policy !== "never" && data.username) || `Farcaster User ${fid}`,
+                // Placeholders never count as verified
+                emailVerified: !!email && emailVerified === true,
+            },
+        });
+
+        // Every mapped column starts out as written by the plugin
+        const syncedUserFields: Record<string, unknown> = {};
+        for (const column of new Set([...mappedColumns, ...Object.keys(values), "name"])) {
+            syncedUserFields[column] = user[column] ?? null;
+        }
+
+        await upsertFarcasterProfile(trx, {
+            userId: user.id,
+            fid,
+            data,
+            syncedUserFields,
+        });
+        await ensureFarcasterAccount(trx, { userId: user.id, fid, providerId });
+        return user;
+    });
+
+    return { user, isNewUser: true };
+}
+
+/**
+ * Run the `beforeSignIn` hook for a verified FID
+ * @returns The URL to redirect to, if the hook asked for a redirect
+ * @throws APIError FORBIDDEN if the hook rejected the sign-in
+ */
+export async function runBeforeSignIn(
+    shared: FarcasterShared,
+    context: { fid: number; flow: FarcasterAuthFlow; request?: Request }
+): Promise<string | undefined> {
+    const result = await shared.options.hooks?.beforeSignIn?.(context);
+
+    if (result?.action === "reject") {
+        throw new APIError("FORBIDDEN", {
+            message: result.message || "Sign-in rejected",
+            code: result.code || "SIGN_IN_REJECTED",
+        });
+    }
+
+    return result?.action === "redirect" ? result.url : undefined;
+}
+
+/**
+ * Run the `afterUserCreated` (for new users) and `afterSignIn` hooks,
+ * then send the matching webhook events
+ */
+export async function runAfterSignIn(
+    authContext: AuthContext,
+    shared: FarcasterShared,
+    context: { user: UserRecord; session: Session; fid: number; flow: FarcasterAuthFlow; request?: Request },
+    isNewUser: boolean
+) {
+    const { hooks, webhooks } = shared.options;
+    const hookContext = { ...context, user: context.user as unknown as FarcasterUser };
+    const eventData = { user: context.user, fid: context.fid, flow: context.flow };
+
+    if (isNewUser) {
+        await hooks?.afterUserCreated?.(hookContext);
+    }
+    await hooks?.afterSignIn?.(hookContext);
+
+    if (isNewUser) {
+        dispatchWebhookEvent(authContext, webhooks, "user.created", eventData);
+    }
+    dispatchWebhookEvent(authContext, webhooks, "signin.succeeded", { ...eventData, isNewUser });
+}
+
+/**
+ * Run the `afterLink` hook, then send the `account.linked` webhook event
+ */
+export async function runAfterLink(
+    authContext: AuthContext,
+    shared: FarcasterShared,
+    context: { user: UserRecord; session: Session; fid: number; flow: FarcasterAuthFlow; request?: Request }
+) {
+    await shared.options.hooks?.afterLink?.({ ...context, user: context.user as unknown as FarcasterUser });
+    dispatchWebhookEvent(authContext, shared.options.webhooks, "account.linked", {
+        user: context.user,
+        fid: context.fid,
+        flow: context.flow,
+    });
+}
+
+/**
+ * Create a session for a user and set the session cookie
+ * @param sessionFields - Additional session fields to store, e.g. the miniapp launch context
+ */
+export async function createFarcasterSession(
+    ctx: EndpointContext,
+    user: UserRecord,
+    cookieOptions: FarcasterCookieOptions,
+    sessionFields?: Record<string, unknown>
+) {
+    const session = await ctx.context.internalAdapter.createSession(
+        user.id,
+        false, // rememberMe = true (dontRememberMe = false)
+        sessionFields
+    );
+
+    if (!session) {
+        throw new APIError("INTERNAL_SERVER_ERROR", {
+            message: "Failed to create session",
+        });
+    }
+
+    await setSessionCookie(
+        ctx,
+        {
+            session,
+            user: user as unknown as FarcasterUser,
+        },
+        false,
+        cookieOptions
+    );
+
+    return session;
+}
+
+const unlinkSchema = z.object({
+    force: z.boolean().optional(),
+}).optional();
+
+/**
+ * Create the endpoint that unlinks Farcaster from the current user
+ * @param path - Endpoint path (e.g., "/farcaster/unlink")
+ * @param shared - Shared plugin options
+ * @param flow - The flow the endpoint belongs to
+ */
+export function createUnlinkEndpoint<Path extends string>(path: Path, shared: FarcasterShared, flow: FarcasterAuthFlow) {
+    return createAuthEndpoint(
+        path,
+        {
+            method: "POST",
+            body: unlinkSchema,
+            use: [sessionMiddleware],
+            metadata: {
+                openapi: {
+                    summary: "Unlink Farcaster account",
+                    description: "Remove Farcaster FID from the current account",
+                    tags: ["Farcaster"],
+                },
+            },
+        },
+        async (ctx) => {
+            const session = ctx.context.session;
+            const currentUser = session.user as FarcasterUser;
+
+            if (!currentUser.fid) {
+                throw new APIError("BAD_REQUEST", {
+                    message: "No Farcaster account linked",
+                });
+            }
+
+            const { canForceUnlink } = shared.options;
+            const force = ctx.body?.force === true;
+            if (force && !(canForceUnlink && await canForceUnlink(currentUser))) {
+                throw new APIError("FORBIDDEN", {
+                    message: "Not allowed to force unlink",
+                    code: "FORCE_UNLINK_NOT_ALLOWED",
+                });
+            }
+
+            // Clear the FID and delete the account row together
+            const updatedUser = await unlinkFarcasterAccount(ctx.context.adapter, {
+                userId: session.user.id,
+                providerId: shared.providerId,
+                force,
+            });
+
+            if (!updatedUser) {
+                throw new APIError("INTERNAL_SERVER_ERROR", {
+                    message: "Failed to update user",
+                });
+            }
+
+            await recordAuthEvent(ctx, {
+                type: "unlink",
+                outcome: "success",
+                fid: currentUser.fid,
+                userId: updatedUser.id,
+                flow,
+            });
+            await shared.options.hooks?.afterUnlink?.({
+                user: updatedUser as unknown as FarcasterUser,
+                session: session.session,
+                fid: currentUser.fid,
+                flow,
+                request: ctx.request,
+            });
+            dispatchWebhookEvent(ctx.context, shared.options.webhooks, "account.unlinked", {
+                user: updatedUser,
+                fid: currentUser.fid,
+                flow,
+            });
+
+            return ctx.json({
+                success: true,
+                user: updatedUser as unknown as FarcasterUser,
+            });
+        }
+    );
+}
+
+/**
+ * Create the endpoint that returns the current user's Farcaster profile
+ * @param path - Endpoint path (e.g., "/farcaster/profile")
+ * @param shared - Shared plugin options
+ */
+export function createProfileEndpoint<Path extends string>(path: Path, shared: FarcasterShared) {
+    return createAuthEndpoint(
+        path,
+        {
+            method: "GET",
+            use: [sessionMiddleware],
+            metadata: {
+                openapi: {
+                    summary: "Get Farcaster profile",
+                    description: "Get the Farcaster FID, user data and stored Farcaster profile for the authenticated user",
+                    tags: ["Farcaster"],
+                },
+            },
+        },
+        async (ctx) => {
+            const session = ctx.context.session;
+            const currentUser = session.user as FarcasterUser;
+
+            if (!currentUser?.fid) {
+                throw new APIError("BAD_REQUEST", {
+                    message: "No Farcaster FID found for user",
+                });
+            }
+
+            const profile = await findFarcasterProfile(ctx.context.adapter, currentUser.id);
+
+            return ctx.json({
+                fid: currentUser.fid,
+                user: currentUser,
+                profile,
+                emailRequired: isEmailRequired(shared, currentUser),
+                launchContext: getLaunchContext(session.session),
+            });
+        }
+    );
+}
+
+const attachEmailSchema = z.object({
+    email: z.string().email("Invalid email"),
+    callbackURL: z.string().optional(),
+});
+
+/**
+ * Create the endpoint that gives a Farcaster user without a verified email a real address
+ * The email is saved unverified and Better Auth's verification email is sent to it;
+ * users whose email is already verified change it with Better Auth's `/change-email`
+ * @param path - Endpoint path (e.g., "/farcaster/attach-email")
+ * @param shared - Shared plugin options
+ */
+export function createAttachEmailEndpoint<Path extends string>(path: Path, shared: FarcasterShared) {
+    return createAuthEndpoint(
+        path,
+        {
+            method: "POST",
+            body: attachEmailSchema,
+            use: [sessionMiddleware],
+            metadata: {
+                openapi: {
+                    summary: "Attach email",
+                    description: "Set an email on a Farcaster user without a verified one and send a verification email",
+                    tags: ["Farcaster"],
+                },
+            },
+        },
+        async (ctx) => {
+            const session = ctx.context.session;
+            const email = ctx.body.email.toLowerCase();
+
+            // Users created before `emailStrategy` have a placeholder marked verified; it doesn't count
+            if (session.user.emailVerified && !isPlaceholderEmail(shared, session.user.email)) {
+                throw new APIError("BAD_REQUEST", {
+                    message: "Email is already verified; use change-email instead",
+                    code: "EMAIL_ALREADY_VERIFIED",
+                });
+            }
+
+            // Checked before the lookup below so the response doesn't reveal which emails exist
+            if (!ctx.context.options.emailVerification?.sendVerificationEmail) {
+                ctx.context.logger.error("Verification email isn't enabled.");
+                throw new APIError("BAD_REQUEST", {
+                    message: "Verification email isn't enabled",
+                    code: "VERIFICATION_EMAIL_NOT_ENABLED",
+                });
+            }
+
+            if (isPlaceholderEmail(shared, email)) {
+                throw new APIError("BAD_REQUEST", {
+                    message: "Invalid email",
+                    code: "INVALID_EMAIL",
+                });
+            }
+
+            const existingUser = await ctx.context.internalAdapter.findUserByEmail(email);
+            if (existingUser && existingUser.user.id !== session.user.id) {
+                ctx.context.logger.info("Attach email attempt for existing email");
+                return ctx.json({ status: true });
+            }
+
+            const updatedUser = await ctx.context.internalAdapter.updateUser(session.user.id, {
+                email,
+                emailVerified: false,
+            });
+
+            await setSessionCookie(ctx, {
+                session: session.session,
+                user: updatedUser,
+            });
+            await sendVerificationEmailFn(ctx, updatedUser);
+
+            return ctx.json({ status: true });
+        }
+    );
+}
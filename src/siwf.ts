@@ -0,0 +1,52 @@
+/**
+ * Sign In With Farcaster message helpers shared by the Core (SIWF) flow and the Miniapp message sign-in
+ * Both verify SIWF messages with `@farcaster/auth-client`, which is loaded lazily so it stays optional
+ */
+import { APIError } from "better-auth/api";
+import type { AppClient } from "@farcaster/auth-client";
+import { getAuthority } from "./domain";
+
+/**
+ * Create a loader of the `@farcaster/auth-client` app client, created on first use
+ * @param relay - Relay URL for channel requests; message verification doesn't use it
+ * @param rpcUrl - Optimism RPC URL for FID ownership checks
+ * @returns Function returning the app client
+ * @throws APIError INTERNAL_SERVER_ERROR if `@farcaster/auth-client` or `viem` isn't installed
+ */
+export function createAppClientLoader(relay?: string, rpcUrl?: string): () => Promise<AppClient> {
+    let appClient: AppClient | null = null;
+    return async () => {
+        if (!appClient) {
+            try {
+                const { createAppClient, viemConnector } = await import('@farcaster/auth-client');
+                appClient = createAppClient({
+                    ...(relay ? { relay } : {}),
+                    ethereum: viemConnector(rpcUrl ? { rpcUrl } : undefined),
+                });
+            } catch (error) {
+                throw new APIError("INTERNAL_SERVER_ERROR", {
+                    message: "Failed to initialize Farcaster auth client. Make sure @farcaster/auth-client and viem are installed.",
+                });
+            }
+        }
+        return appClient;
+    };
+}
+
+/**
+ * Create a picker of the SIWE URI expected for a request's domain
+ * @param siweUri - One URI, or one per domain
+ * @returns Function returning the URI served from the domain, else the first one (undefined without any)
+ */
+export function createSiweUriResolver(siweUri?: string | string[]): (domain: string) => string | undefined {
+    const siweUris = siweUri === undefined ? [] : Array.isArray(siweUri) ? siweUri : [siweUri];
+    return (domain) => siweUris.find((uri) => getAuthority(uri) === domain) ?? siweUris[0];
+}
+
+/**
+ * Extract the nonce from a SIWF message
+ */
+export function extractNonceFromMessage(message: string): string {
+    const nonceMatch = message.match(/Nonce: ([^\n]+)/);
+    return nonceMatch ? nonceMatch[1] : '';
+}
@@ -1,20 +1,499 @@
 import type { User as BetterAuthUser, Session } from "better-auth";
+import type { ResolveDomainFn } from "./domain";
 
 // Extended user type with Farcaster FID
 export type FarcasterUser = BetterAuthUser & { fid?: number | null };
 
 // Response types
-export interface FarcasterSignInResponse {
+
+/**
+ * Sign-in response with the new session
+ */
+export interface FarcasterSessionResponse {
     user: FarcasterUser;
     session: Session;
+    /**
+     * With `emailStrategy: { type: "prompt" }`, true while the user has no real email yet
+     */
+    emailRequired?: boolean;
+    /**
+     * Signed session token to send as `Authorization: Bearer`, with the Miniapp flow's `bearerToken` option
+     */
+    token?: string;
 }
 
 export interface FarcasterProfileResponse {
     fid: number;
     user: FarcasterUser;
+    /**
+     * With `emailStrategy: { type: "prompt" }`, true while the user has no real email yet
+     */
+    emailRequired?: boolean;
+    /**
+     * Stored Farcaster profile, or null if none has been synced yet
+     */
+    profile: FarcasterProfile | null;
+    /**
+     * Where the current miniapp session was started, with the Miniapp flow's `launchContext` option;
+     * null if the session has none
+     */
+    launchContext?: FarcasterLaunchContext | null;
+}
+
+/**
+ * Where a miniapp session was started, from the SDK context sent with sign-in
+ */
+export interface FarcasterLaunchContext {
+    /**
+     * FID of the Farcaster client the miniapp ran in
+     */
+    clientFid: number;
+    platformType: "web" | "mobile" | null;
+    /**
+     * How the miniapp was opened (e.g. "cast_embed", "notification", "launcher")
+     */
+    location: string | null;
 }
 
 export interface FarcasterLinkResponse {
     success: boolean;
     user: FarcasterUser;
 }
+
+export interface FarcasterAttachEmailResponse {
+    status: boolean;
+}
+
+/**
+ * Returned by sign-in instead of a session when a `beforeSignIn` hook redirects
+ */
+export interface FarcasterRedirectResponse {
+    redirect: true;
+    url: string;
+}
+
+/**
+ * Response of a sign-in: the session, or a redirect when a `beforeSignIn` hook redirects
+ */
+export type FarcasterSignInResponse = FarcasterSessionResponse | FarcasterRedirectResponse;
+
+export interface FarcasterAuthEventsResponse {
+    events: FarcasterAuthEvent[];
+    total: number;
+    limit: number;
+    offset: number;
+}
+
+/**
+ * Farcaster identity fields received from a sign-in flow or `resolveProfile`
+ */
+export interface FarcasterProfileData {
+    username?: string;
+    displayName?: string;
+    pfpUrl?: string;
+    bio?: string;
+    /**
+     * Address of the FID's custody wallet
+     */
+    custodyAddress?: string;
+    /**
+     * Ethereum addresses verified by the FID
+     */
+    verifiedEthAddresses?: string[];
+    /**
+     * Solana addresses verified by the FID
+     */
+    verifiedSolAddresses?: string[];
+}
+
+/**
+ * Farcaster profile stored for a user in the `farcasterProfile` model
+ */
+export interface FarcasterProfile {
+    id: string;
+    userId: string;
+    fid: number;
+    username: string | null;
+    displayName: string | null;
+    pfpUrl: string | null;
+    bio: string | null;
+    custodyAddress: string | null;
+    verifiedEthAddresses: string[];
+    verifiedSolAddresses: string[];
+    /**
+     * When the profile was last written from Farcaster data
+     */
+    lastSyncedAt: Date;
+}
+
+/**
+ * Profile fields that can be copied onto user columns
+ */
+export type FarcasterProfileField = "username" | "displayName" | "pfpUrl" | "bio" | "custodyAddress";
+
+/**
+ * When a returning user's Farcaster profile is synced again
+ * - `never`: user columns are never written from Farcaster, not even for new users
+ * - `onCreate`: user columns are written once, when the user is created
+ * - `onEverySignIn`: the profile and user columns are refreshed on every sign-in
+ * - `{ ifStaleAfter }`: refreshed on sign-in once the last sync is older than `ifStaleAfter` milliseconds
+ */
+export type FarcasterProfileSyncPolicy = "never" | "onCreate" | "onEverySignIn" | { ifStaleAfter: number };
+
+/**
+ * Options for syncing Farcaster profile data onto users
+ */
+export interface FarcasterProfileSyncOptions {
+    /**
+     * When returning users are synced again
+     * @default "onCreate"
+     */
+    policy?: FarcasterProfileSyncPolicy;
+    /**
+     * User columns to write, mapped to the profile field they're written from
+     * @default { name: "displayName", image: "pfpUrl" }
+     */
+    fields?: Record<string, FarcasterProfileField>;
+    /**
+     * Keep columns the user changed since the plugin last wrote them (e.g. a custom name)
+     * @default true
+     */
+    preserveUserEdits?: boolean;
+}
+
+/**
+ * Email given to new Farcaster users, who have none
+ * - `none`: no email (`null`); the plugin refuses to start unless `user.additionalFields.email` sets `required: false`
+ * - `placeholder`: `<fid>@<domain>`, marked unverified
+ * - `prompt`: a placeholder, and sign-in responses report `emailRequired` until a real email is attached;
+ *   advisory only, so sessions and endpoints work without one
+ */
+export type FarcasterEmailStrategy =
+    | { type: "none" }
+    | { type: "placeholder"; domain?: string }
+    | { type: "prompt"; domain?: string };
+
+// Sign-in flow that created or signed in a user
+export type FarcasterAuthFlow = "miniapp" | "siwf";
+
+/**
+ * Context passed to `beforeSignIn`, before any user or session is touched
+ */
+export interface FarcasterBeforeSignInContext {
+    fid: number;
+    flow: FarcasterAuthFlow;
+    request?: Request;
+}
+
+/**
+ * Outcome of `beforeSignIn`; return nothing to let the sign-in continue
+ * - `reject`: refuse with 403 and `code` (default `SIGN_IN_REJECTED`)
+ * - `redirect`: respond with `{ redirect: true, url }` instead of creating a session
+ */
+export type FarcasterBeforeSignInResult =
+    | void
+    | { action: "reject"; message?: string; code?: string }
+    | { action: "redirect"; url: string };
+
+/**
+ * Context passed to the `after*` lifecycle hooks
+ */
+export interface FarcasterHookContext {
+    user: FarcasterUser;
+    session: Session;
+    fid: number;
+    flow: FarcasterAuthFlow;
+    request?: Request;
+}
+
+/**
+ * Lifecycle hooks run by both flows
+ * `after*` hooks run before the response is sent; an error thrown from one fails the request
+ */
+export interface FarcasterHooks {
+    /**
+     * Runs once the Farcaster identity is verified, before the user is looked up or created
+     * Throw an APIError or return `{ action: "reject" }` to refuse, or `{ action: "redirect" }` to send the user elsewhere
+     */
+    beforeSignIn?: (context: FarcasterBeforeSignInContext) => FarcasterBeforeSignInResult | Promise<FarcasterBeforeSignInResult>;
+    /**
+     * Runs after a sign-in created a new user, before `afterSignIn`
+     */
+    afterUserCreated?: (context: FarcasterHookContext) => void | Promise<void>;
+    /**
+     * Runs after every sign-in, once the session exists
+     */
+    afterSignIn?: (context: FarcasterHookContext) => void | Promise<void>;
+    /**
+     * Runs after an FID was linked to the signed-in user
+     */
+    afterLink?: (context: FarcasterHookContext) => void | Promise<void>;
+    /**
+     * Runs after the signed-in user unlinked Farcaster; `fid` is the FID that was removed
+     */
+    afterUnlink?: (context: FarcasterHookContext) => void | Promise<void>;
+}
+
+/**
+ * Context passed to access rules
+ */
+export interface FarcasterAccessContext {
+    fid: number;
+    flow: FarcasterAuthFlow;
+    /**
+     * Whether the FID is signing in or being linked to the signed-in user
+     */
+    action: "signIn" | "link";
+    request?: Request;
+}
+
+/**
+ * Outcome of an access rule: `true` to allow, `false` to deny,
+ * or an object carrying a `reason` code and message for the `ACCESS_DENIED` error
+ */
+export type FarcasterAccessDecision = boolean | { allowed: boolean; reason?: string; message?: string };
+
+/**
+ * Rule deciding whether a verified FID may sign in or link
+ */
+export type FarcasterAccessRule = (context: FarcasterAccessContext) => FarcasterAccessDecision | Promise<FarcasterAccessDecision>;
+
+/**
+ * Which Farcaster identities may sign in or link
+ * Checked in order: `denyFids`, `allowFids`, then each rule; the first refusal wins
+ */
+export interface FarcasterAccessPolicy {
+    /**
+     * FIDs that may never sign in or link
+     */
+    denyFids?: number[];
+    /**
+     * When set, only these FIDs may sign in or link (e.g., an invite list)
+     */
+    allowFids?: number[];
+    /**
+     * Further checks, such as `requireMinFidAge`, `requireMinFollowers` or `requireChannelMember`
+     */
+    rules?: FarcasterAccessRule[];
+}
+
+/**
+ * Kinds of entries in the `farcasterAuthEvent` audit log
+ */
+export type FarcasterAuthEventType =
+    | "sign_in"
+    | "sign_up"
+    | "link"
+    | "unlink"
+    | "verification_failed"
+    | "fid_mismatch"
+    | "rate_limited";
+
+/**
+ * Entry of the `farcasterAuthEvent` audit log
+ */
+export interface FarcasterAuthEvent {
+    id: string;
+    type: FarcasterAuthEventType;
+    outcome: "success" | "failure";
+    fid: number | null;
+    userId: string | null;
+    flow: FarcasterAuthFlow | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+    channelToken: string | null;
+    /**
+     * Error code or message of a failure
+     */
+    reason: string | null;
+    createdAt: Date;
+}
+
+/**
+ * Options for the `farcasterAuthEvent` audit log
+ */
+export interface FarcasterAuditLogOptions {
+    /**
+     * Decide who may query the audit log through the `audit-events` endpoint
+     * @default Users whose `role` is "admin" (as set by Better Auth's admin plugin)
+     */
+    canQuery?: (user: FarcasterUser) => boolean | Promise<boolean>;
+}
+
+/**
+ * Events sent by the `webhooks` option
+ */
+export type FarcasterWebhookEventType =
+    | "user.created"
+    | "signin.succeeded"
+    | "account.linked"
+    | "account.unlinked";
+
+/**
+ * JSON body of a webhook request
+ */
+export interface FarcasterWebhookEvent {
+    /**
+     * Unique event ID, the same on every delivery attempt
+     */
+    id: string;
+    type: FarcasterWebhookEventType;
+    /**
+     * ISO timestamp of the event
+     */
+    createdAt: string;
+    data: {
+        user: FarcasterUser;
+        fid: number;
+        flow: FarcasterAuthFlow;
+        /**
+         * Set on `signin.succeeded`
+         */
+        isNewUser?: boolean;
+    };
+}
+
+/**
+ * URL receiving webhook events
+ */
+export interface FarcasterWebhookEndpoint {
+    url: string;
+    /**
+     * Secret the requests are signed with; share it with the receiver
+     */
+    secret: string;
+    /**
+     * Events to send to this URL
+     * @default All events
+     */
+    events?: FarcasterWebhookEventType[];
+}
+
+/**
+ * Options for outbound webhooks
+ */
+export interface FarcasterWebhookOptions {
+    endpoints: FarcasterWebhookEndpoint[];
+    /**
+     * Delivery attempts before the event is stored in the `farcasterWebhookDeadLetter` model
+     * @default 5
+     */
+    maxAttempts?: number;
+    /**
+     * Milliseconds to wait before retrying after a failed attempt (1 for the first retry)
+     * @default 1s, doubling on each retry, up to 1 minute
+     */
+    retryDelay?: (attempt: number) => number;
+    /**
+     * Milliseconds to wait for a response before an attempt counts as failed
+     * @default 10000
+     */
+    timeout?: number;
+}
+
+/**
+ * Generate the ID of a new Farcaster user
+ * Return `undefined` to use Better Auth's own ID generation
+ */
+export type GenerateUserIdFn = (fid: number, flow: FarcasterAuthFlow) => string | undefined | Promise<string | undefined>;
+
+// Session cookie settings for a sign-in flow
+export interface FarcasterCookieOptions {
+    secure?: boolean;
+    sameSite?: "strict" | "lax" | "none";
+    httpOnly?: boolean;
+    path?: string;
+}
+
+/**
+ * Options shared by the Miniapp (Quick Auth) and Core (SIWF) flows
+ */
+export interface FarcasterSharedOptions {
+    /**
+     * The domain of your application (e.g., "myapp.com" or "https://myapp.com"), or a list of allowed domains
+     * Entries may include a port ("localhost:3000"), any port ("localhost:*") or a wildcard subdomain ("*.myapp.com")
+     * Quick Auth tokens and SIWE messages are verified against the allowed domain the request came from
+     */
+    domain: string | string[];
+    /**
+     * Optional function to resolve the domain of a request (e.g., from a tenant header)
+     * Defaults to the request's Origin (or Referer) header; the result must still match `domain`
+     * @param request - The incoming request, if any
+     * @returns The domain or origin URL to verify against
+     */
+    resolveDomain?: ResolveDomainFn;
+    /**
+     * Generate the ID of users created by either flow
+     * @default Better Auth's own ID generation
+     */
+    generateUserId?: GenerateUserIdFn;
+    /**
+     * `providerId` of the Farcaster rows in Better Auth's account table
+     * @default "Farcaster"
+     */
+    providerId?: string;
+    /**
+     * Decide whether a user may pass `force: true` to unlink, which skips the check that
+     * Farcaster isn't their only sign-in method. Forcing is refused when not set.
+     * @param user - The user unlinking Farcaster
+     * @returns Whether the forced unlink is allowed (e.g., the user is an admin)
+     */
+    canForceUnlink?: (user: FarcasterUser) => boolean | Promise<boolean>;
+    /**
+     * Optional function to resolve additional user data from Farcaster
+     * Runs for new users and, for `name` and `image`, whenever `profileSync` syncs a returning user
+     * @param fid - The Farcaster ID
+     * @returns Additional user data to store
+     */
+    resolveUserData?: (fid: number) => Promise<{
+        name?: string;
+        email?: string;
+        image?: string;
+        /**
+         * Whether the returned email is known to be verified
+         * @default false
+         */
+        emailVerified?: boolean;
+    }>;
+    /**
+     * Email given to new users when `resolveUserData` returns none
+     * @default { type: "placeholder", domain: "farcaster.local" }
+     */
+    emailStrategy?: FarcasterEmailStrategy;
+    /**
+     * Optional function to fetch profile fields for the `farcasterProfile` model (e.g., from a hub or Neynar)
+     * Runs on link and whenever a sign-in syncs the profile; fields received from the flow itself take precedence
+     * @param fid - The Farcaster ID
+     * @returns Profile fields to store
+     */
+    resolveProfile?: (fid: number) => Promise<FarcasterProfileData | null | undefined>;
+    /**
+     * When and how profile data is copied onto returning users
+     * @default { policy: "onCreate", fields: { name: "displayName", image: "pfpUrl" }, preserveUserEdits: true }
+     */
+    profileSync?: FarcasterProfileSyncOptions;
+    /**
+     * Refuse valid Farcaster identities that aren't allowed in, before any user row is written
+     * Refusals are 403 errors with the code `ACCESS_DENIED` and the rule's `reason`
+     */
+    accessPolicy?: FarcasterAccessPolicy;
+    /**
+     * Record sign-ins, sign-ups, links, unlinks and failures in a `farcasterAuthEvent` model
+     * Pass `true` for the defaults, or the audit log's options
+     * @default false
+     */
+    auditLog?: boolean | FarcasterAuditLogOptions;
+    /**
+     * POST signed JSON events to your services on sign-up, sign-in, link and unlink
+     * Failed deliveries are retried with backoff, then stored in a `farcasterWebhookDeadLetter` model
+     */
+    webhooks?: FarcasterWebhookOptions;
+    /**
+     * Lifecycle hooks for sign-in, sign-up, link and unlink
+     */
+    hooks?: FarcasterHooks;
+    /**
+     * Cookie configuration options
+     */
+    cookieOptions?: FarcasterCookieOptions;
+}
@@ -0,0 +1,197 @@
+/**
+ * User creation shared by the Miniapp and Core plugins
+ * Both flows create users the same way, so one person gets the same shape of ID
+ * whichever flow they used first
+ */
+import type { AuthContext } from "better-auth";
+import type { FarcasterAuthFlow, GenerateUserIdFn } from "./types";
+
+type Adapter = AuthContext["adapter"];
+
+// Records as returned by the adapter
+type UserRecord = { id: string;[key: string]: unknown };
+
+/**
+ * Create a Farcaster user, using `generateUserId` for the ID when it returns one
+ * @param adapter - Adapter to write with
+ * @param params.fid - The Farcaster ID
+ * @param params.flow - The flow creating the user
+ * @param params.generateUserId - Plugin's `generateUserId` option
+ * @param params.data - User fields (fid, email, name, ...)
+ */
+export async function createFarcasterUser(
+    adapter: Pick<Adapter, "create">,
+    params: {
+        fid: number;
+        flow: FarcasterAuthFlow;
+        generateUserId?: GenerateUserIdFn;
+        data: Record<string, unknown>;
+    }
+): Promise<UserRecord> {
+    const id = params.generateUserId
+        ? await params.generateUserId(params.fid, params.flow)
+        : undefined;
+
+    return adapter.create<Record<string, unknown>, UserRecord>({
+        model: "user",
+        data: id ? { ...params.data, id } : params.data,
+        // The adapter ignores a provided ID unless explicitly allowed
+        forceAllowId: !!id,
+    });
+}
+
+/**
+ * Options for {@link migrateLegacyUserIds}
+ */
+export interface MigrateLegacyUserIdsOptions {
+    /**
+     * Generate the new ID for a user; return `undefined` to use Better Auth's ID generation.
+     * Pass the same function as the plugins' `generateUserId` option.
+     */
+    generateUserId?: GenerateUserIdFn;
+    /**
+     * Columns referencing the user ID that must be rewritten, in addition to `session.userId`, `account.userId`,
+     * `farcasterProfile.userId` and, with `auditLog`, `farcasterAuthEvent.userId` (e.g. tables added by other plugins)
+     * Notification tokens and deliveries are keyed by FID, so they need no rewrite
+     */
+    references?: { model: string; field: string }[];
+    /**
+     * Only list the users that would be migrated, without writing
+     * @default false
+     */
+    dryRun?: boolean;
+    /**
+     * Number of users read per query
+     * @default 100
+     */
+    batchSize?: number;
+}
+
+/**
+ * Result of {@link migrateLegacyUserIds}
+ */
+export interface MigrateLegacyUserIdsResult {
+    /** Number of users migrated (or that would be, with `dryRun`) */
+    migrated: number;
+    /** Old and new ID of each migrated user; `to` is null with `dryRun` */
+    ids: { from: string; to: string | null }[];
+    /** IDs left unchanged because `generateUserId` returned another `fid:` ID */
+    skipped: string[];
+}
+
+/**
+ * Rewrite legacy `fid:<fid>` user IDs created by earlier versions of the Core plugin
+ * Each user is recreated under a new ID and every reference is moved over in one transaction.
+ *
+ * @param auth - Your Better Auth instance
+ * @param options - Migration options
+ *
+ * @example
+ * ```ts
+ * import { migrateLegacyUserIds } from "better-auth-farcaster-plugin";
+ *
+ * const { migrated, ids } = await migrateLegacyUserIds(auth, {
+ *     references: [{ model: "member", field: "userId" }],
+ * });
+ * ```
+ */
+export async function migrateLegacyUserIds(
+    auth: { $context: Promise<{ adapter: Adapter; generateId: AuthContext["generateId"]; tables: AuthContext["tables"] }> },
+    options: MigrateLegacyUserIdsOptions = {}
+): Promise<MigrateLegacyUserIdsResult> {
+    const { adapter, generateId, tables } = await auth.$context;
+    const batchSize = options.batchSize ?? 100;
+    const references = [
+        { model: "session", field: "userId" },
+        { model: "account", field: "userId" },
+        { model: "farcasterProfile", field: "userId" },
+        // Only part of the schema when `auditLog` is enabled
+        ...(tables.farcasterAuthEvent ? [{ model: "farcasterAuthEvent", field: "userId" }] : []),
+        ...(options.references || []),
+    ];
+    const result: MigrateLegacyUserIdsResult = { migrated: 0, ids: [], skipped: [] };
+
+    for (let offset = 0; ; ) {
+        const users = await adapter.findMany<UserRecord>({
+            model: "user",
+            where: [{ field: "id", operator: "starts_with", value: "fid:" }],
+            limit: batchSize,
+            // Migrated users no longer match, so only page past the rows left in place
+            offset,
+            sortBy: { field: "id", direction: "asc" },
+        });
+
+        for (const user of users) {
+            if (options.dryRun) {
+                result.ids.push({ from: user.id, to: null });
+                continue;
+            }
+            const to = await migrateUser(adapter, user, {
+                generateUserId: options.generateUserId,
+                generateId,
+                references,
+            });
+            if (to === null) {
+                result.skipped.push(user.id);
+                offset++;
+                continue;
+            }
+            result.ids.push({ from: user.id, to });
+        }
+
+        if (users.length < batchSize) break;
+        if (options.dryRun) offset += batchSize;
+    }
+
+    result.migrated = result.ids.length;
+    return result;
+}
+
+async function migrateUser(
+    adapter: Adapter,
+    user: UserRecord,
+    params: {
+        generateUserId?: GenerateUserIdFn;
+        generateId: AuthContext["generateId"];
+        references: { model: string; field: string }[];
+    }
+): Promise<string | null> {
+    const { id: oldId, ...data } = user;
+    const fid = typeof user.fid === "number" ? user.fid : Number(oldId.slice("fid:".length));
+    const newId =
+        (params.generateUserId ? await params.generateUserId(fid, "siwf") : undefined) ||
+        params.generateId({ model: "user" }) ||
+        undefined;
+    // The user would still match the legacy filter; leave it rather than migrating it again
+    if (newId?.startsWith("fid:")) return null;
+
+    return adapter.transaction(async (trx) => {
+        // Release the unique columns so the copy can take them over
+        await trx.update({
+            model: "user",
+            where: [{ field: "id", value: oldId }],
+            update: { fid: null, email: `${oldId.replace(":", "-")}@migrating.farcaster.local` },
+        });
+
+        const created = await trx.create<Record<string, unknown>, UserRecord>({
+            model: "user",
+            data: newId ? { ...data, id: newId } : data,
+            forceAllowId: !!newId,
+        });
+
+        for (const { model, field } of params.references) {
+            await trx.updateMany({
+                model,
+                where: [{ field, value: oldId }],
+                update: { [field]: created.id },
+            });
+        }
+
+        await trx.delete({
+            model: "user",
+            where: [{ field: "id", value: oldId }],
+        });
+
+        return created.id;
+    });
+}
@@ -0,0 +1,198 @@
+/**
+ * Outbound webhooks shared by the Miniapp and Core plugins
+ * Sends signed JSON events to the URLs in the `webhooks` option, retrying failed deliveries
+ * and keeping those that never succeed in the `farcasterWebhookDeadLetter` model
+ */
+import type { AuthContext, BetterAuthPlugin } from "better-auth";
+import { constantTimeEqual, generateRandomString, makeSignature } from "better-auth/crypto";
+import type {
+    FarcasterAuthFlow,
+    FarcasterUser,
+    FarcasterWebhookEndpoint,
+    FarcasterWebhookEvent,
+    FarcasterWebhookEventType,
+    FarcasterWebhookOptions,
+} from "./types";
+
+const DEAD_LETTER_MODEL = "farcasterWebhookDeadLetter";
+
+// Headers of a webhook request
+const WEBHOOK_ID_HEADER = "x-farcaster-webhook-id";
+const WEBHOOK_TIMESTAMP_HEADER = "x-farcaster-webhook-timestamp";
+const WEBHOOK_SIGNATURE_HEADER = "x-farcaster-webhook-signature";
+
+/**
+ * Database schema for the `farcasterWebhookDeadLetter` model, added when `webhooks` is set
+ */
+export const farcasterWebhookDeadLetterSchema = {
+    farcasterWebhookDeadLetter: {
+        fields: {
+            eventId: { type: "string", required: true },
+            eventType: { type: "string", required: true },
+            url: { type: "string", required: true },
+            // The JSON body that was sent
+            payload: { type: "string", required: true },
+            attempts: { type: "number", required: true },
+            lastError: { type: "string", required: false },
+            createdAt: { type: "date", required: true },
+        },
+    },
+} satisfies BetterAuthPlugin["schema"];
+
+const defaultRetryDelay = (attempt: number) => Math.min(1000 * 2 ** (attempt - 1), 60000);
+
+// Signed content: the event ID and timestamp bind the signature to one delivery of one event
+const getSignedContent = (id: string, timestamp: string, body: string) => `${id}.${timestamp}.${body}`;
+
+/**
+ * Send an event to every webhook URL subscribed to it
+ * Deliveries run in the background (see Better Auth's `advanced.backgroundTasks`), so the request isn't held up
+ * @param context - The Better Auth context of the current request
+ * @param options - The `webhooks` option, if set
+ * @param type - The event type
+ * @param data - The event data
+ */
+export function dispatchWebhookEvent(
+    context: AuthContext,
+    options: FarcasterWebhookOptions | undefined,
+    type: FarcasterWebhookEventType,
+    data: { user: unknown; fid: number; flow: FarcasterAuthFlow; isNewUser?: boolean }
+): void {
+    const endpoints = options?.endpoints.filter((endpoint) => !endpoint.events || endpoint.events.includes(type));
+    if (!options || !endpoints?.length) {
+        return;
+    }
+
+    const event: FarcasterWebhookEvent = {
+        id: generateRandomString(32),
+        type,
+        createdAt: new Date().toISOString(),
+        data: { ...data, user: data.user as FarcasterUser },
+    };
+    const body = JSON.stringify(event);
+
+    for (const endpoint of endpoints) {
+        context.runInBackground(deliverWebhook(context, options, endpoint, event, body));
+    }
+}
+
+/**
+ * POST an event to one URL, retrying with backoff, and store it as a dead letter if every attempt fails
+ */
+async function deliverWebhook(
+    context: AuthContext,
+    options: FarcasterWebhookOptions,
+    endpoint: FarcasterWebhookEndpoint,
+    event: FarcasterWebhookEvent,
+    body: string
+): Promise<void> {
+    const maxAttempts = options.maxAttempts ?? 5;
+    const retryDelay = options.retryDelay ?? defaultRetryDelay;
+    let lastError = "";
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        try {
+            const timestamp = String(Math.floor(Date.now() / 1000));
+            const signature = await makeSignature(getSignedContent(event.id, timestamp, body), endpoint.secret);
+            const response = await fetch(endpoint.url, {
+                method: "POST",
+                headers: {
+                    "content-type": "application/json",
+                    [WEBHOOK_ID_HEADER]: event.id,
+                    [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+                    [WEBHOOK_SIGNATURE_HEADER]: `v1=${signature}`,
+                },
+                body,
+                signal: AbortSignal.timeout(options.timeout ?? 10000),
+            });
+            if (response.ok) {
+                return;
+            }
+            lastError = `HTTP ${response.status}`;
+        } catch (error) {
+            lastError = error instanceof Error ? error.message : String(error);
+        }
+
+        if (attempt < maxAttempts) {
+            await new Promise((resolve) => setTimeout(resolve, retryDelay(attempt)));
+        }
+    }
+
+    context.logger.error(`Farcaster webhook ${event.type} to ${endpoint.url} failed: ${lastError}`);
+    try {
+        await context.adapter.create({
+            model: DEAD_LETTER_MODEL,
+            data: {
+                eventId: event.id,
+                eventType: event.type,
+                url: endpoint.url,
+                payload: body,
+                attempts: maxAttempts,
+                lastError,
+                createdAt: new Date(),
+            },
+        });
+    } catch (error) {
+        context.logger.error("Failed to store Farcaster webhook dead letter:", error);
+    }
+}
+
+/**
+ * Verify a webhook request sent by the plugin and parse its event
+ * @param params.payload - The raw request body, as received
+ * @param params.headers - The request headers
+ * @param params.secret - The secret of the webhook endpoint
+ * @param params.tolerance - Maximum age of the request in seconds (default 300)
+ * @throws Error if the signature is missing or invalid, or the request is too old
+ *
+ * @example
+ * ```ts
+ * import { verifyFarcasterWebhook } from "better-auth-farcaster-plugin";
+ *
+ * export async function POST(request: Request) {
+ *     const event = await verifyFarcasterWebhook({
+ *         payload: await request.text(),
+ *         headers: request.headers,
+ *         secret: process.env.FARCASTER_WEBHOOK_SECRET!,
+ *     });
+ *     if (event.type === "user.created") {
+ *         await welcome(event.data.fid);
+ *     }
+ *     return new Response(null, { status: 204 });
+ * }
+ * ```
+ */
+export async function verifyFarcasterWebhook(params: {
+    payload: string;
+    headers: Headers | Record<string, string | string[] | undefined>;
+    secret: string;
+    tolerance?: number;
+}): Promise<FarcasterWebhookEvent> {
+    const getHeader = (name: string) => {
+        const value = params.headers instanceof Headers ? params.headers.get(name) : params.headers[name];
+        return Array.isArray(value) ? value[0] : value;
+    };
+    const id = getHeader(WEBHOOK_ID_HEADER);
+    const timestamp = getHeader(WEBHOOK_TIMESTAMP_HEADER);
+    const signature = getHeader(WEBHOOK_SIGNATURE_HEADER);
+
+    if (!id || !timestamp || !signature?.startsWith("v1=")) {
+        throw new Error("Missing Farcaster webhook signature headers");
+    }
+
+    const age = Math.floor(Date.now() / 1000) - Number(timestamp);
+    if (!Number.isFinite(age) || Math.abs(age) > (params.tolerance ?? 300)) {
+        throw new Error("Farcaster webhook timestamp is outside the tolerance");
+    }
+
+    const expected = await makeSignature(getSignedContent(id, timestamp, params.payload), params.secret);
+    if (!constantTimeEqual(expected, signature.slice("v1=".length))) {
+        throw new Error("Invalid Farcaster webhook signature");
+    }
+
+    const event = JSON.parse(params.payload) as FarcasterWebhookEvent;
+    if (event.id !== id) {
+        throw new Error("Invalid Farcaster webhook signature");
+    }
+    return event;
+}
@@ -0,0 +1,119 @@
+import { describe, expect, test } from "bun:test";
+import { APIError } from "better-auth/api";
+import { checkAccessPolicy, requireChannelMember, requireMinFidAge, requireMinFollowers } from "../src/access";
+import type { FarcasterAccessContext, FarcasterAccessPolicy } from "../src/types";
+
+const FID = 1234;
+const context: FarcasterAccessContext = { fid: FID, flow: "siwf", action: "signIn" };
+
+async function expectDenied(policy: FarcasterAccessPolicy, reason: string, message?: string) {
+    const error = await checkAccessPolicy(policy, context).then(() => undefined, (e: unknown) => e);
+    expect(error).toBeInstanceOf(APIError);
+    expect((error as APIError).status).toBe("FORBIDDEN");
+    expect((error as APIError).body?.code).toBe("ACCESS_DENIED");
+    expect((error as APIError).body?.reason).toBe(reason);
+    if (message) {
+        expect((error as APIError).body?.message).toBe(message);
+    }
+}
+
+async function expectAllowed(policy: FarcasterAccessPolicy | undefined) {
+    await expect(checkAccessPolicy(policy, context)).resolves.toBeUndefined();
+}
+
+describe("checkAccessPolicy", () => {
+    test("allows everyone without a policy", async () => {
+        await expectAllowed(undefined);
+        await expectAllowed({});
+    });
+
+    test("denies FIDs on the deny list", async () => {
+        await expectDenied({ denyFids: [FID] }, "FID_DENIED");
+        await expectAllowed({ denyFids: [1] });
+    });
+
+    test("only allows FIDs on the allow list", async () => {
+        await expectAllowed({ allowFids: [FID] });
+        await expectDenied({ allowFids: [1] }, "FID_NOT_ALLOWED");
+    });
+
+    test("checks the deny list before the allow list", async () => {
+        await expectDenied({ denyFids: [FID], allowFids: [FID] }, "FID_DENIED");
+    });
+
+    test("checks the lists before any rule", async () => {
+        let ruleCalls = 0;
+        const rule = () => {
+            ruleCalls++;
+            return true;
+        };
+
+        await expectDenied({ allowFids: [1], rules: [rule] }, "FID_NOT_ALLOWED");
+        expect(ruleCalls).toBe(0);
+    });
+
+    test("runs rules in order and stops at the first refusal", async () => {
+        const calls: string[] = [];
+        await expectDenied({
+            rules: [
+                () => {
+                    calls.push("first");
+                    return true;
+                },
+                async () => {
+                    calls.push("second");
+                    return { allowed: false, reason: "SECOND", message: "Second rule refused" };
+                },
+                () => {
+                    calls.push("third");
+                    return false;
+                },
+            ],
+        }, "SECOND", "Second rule refused");
+        expect(calls).toEqual(["first", "second"]);
+    });
+
+    test("passes the FID, flow and action to rules", async () => {
+        const seen: FarcasterAccessContext[] = [];
+        await expectAllowed({
+            rules: [(ruleContext) => {
+                seen.push(ruleContext);
+                return { allowed: true };
+            }],
+        });
+        expect(seen).toEqual([context]);
+    });
+
+    test("uses RULE_REJECTED for a rule returning false or no reason", async () => {
+        await expectDenied({ rules: [() => false] }, "RULE_REJECTED", "This Farcaster account is not allowed to sign in");
+        await expectDenied({ rules: [() => ({ allowed: false })] }, "RULE_REJECTED");
+    });
+});
+
+describe("access rules", () => {
+    test("requireMinFidAge", async () => {
+        const day = 24 * 60 * 60 * 1000;
+        const rule = (registeredAt: Date | null) =>
+            requireMinFidAge({ minAge: 30 * day, resolveRegisteredAt: async () => registeredAt });
+
+        await expectAllowed({ rules: [rule(new Date(Date.now() - 31 * day))] });
+        await expectDenied({ rules: [rule(new Date(Date.now() - day))] }, "FID_TOO_NEW");
+        await expectDenied({ rules: [rule(null)] }, "FID_TOO_NEW");
+    });
+
+    test("requireMinFollowers", async () => {
+        const rule = (count: number) => requireMinFollowers({ minFollowers: 100, resolveFollowerCount: async () => count });
+
+        await expectAllowed({ rules: [rule(100)] });
+        await expectDenied({ rules: [rule(99)] }, "NOT_ENOUGH_FOLLOWERS");
+    });
+
+    test("requireChannelMember", async () => {
+        const members = new Set([FID]);
+        const rule = requireChannelMember({ channelId: "farcaster", isMember: async (fid) => members.has(fid) });
+
+        await expectAllowed({ rules: [rule] });
+        members.clear();
+        await expectDenied({ rules: [rule] }, "NOT_A_CHANNEL_MEMBER", "Only members of /farcaster can sign in");
+    });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { APIError } from "better-auth/api";
+import { createDomainResolver, getAuthority, matchesDomain } from "../src/domain";
+
+function originHeaders(origin: string): Headers {
+    return new Headers({ origin });
+}
+
+describe("getAuthority", () => {
+    test("drops the scheme, path and default port", () => {
+        expect(getAuthority("https://example.com:443/login")).toBe("example.com");
+        expect(getAuthority("http://localhost:3000/")).toBe("localhost:3000");
+        expect(getAuthority("Example.com")).toBe("example.com");
+    });
+
+    test("keeps wildcard hosts and ports", () => {
+        expect(getAuthority("*.example.com")).toBe("*.example.com");
+        expect(getAuthority("localhost:*")).toBe("localhost:*");
+    });
+});
+
+describe("matchesDomain", () => {
+    test("a pattern without a port matches any port", () => {
+        expect(matchesDomain("localhost", "localhost")).toBe(true);
+        expect(matchesDomain("localhost:3000", "localhost")).toBe(true);
+    });
+
+    test("a pattern with a port matches only that port", () => {
+        expect(matchesDomain("localhost:3000", "localhost:3000")).toBe(true);
+        expect(matchesDomain("localhost:4000", "localhost:3000")).toBe(false);
+        expect(matchesDomain("localhost", "localhost:3000")).toBe(false);
+        expect(matchesDomain("localhost:4000", "localhost:*")).toBe(true);
+    });
+
+    test("a wildcard matches subdomains but not the apex", () => {
+        expect(matchesDomain("app.example.com", "*.example.com")).toBe(true);
+        expect(matchesDomain("example.com", "*.example.com")).toBe(false);
+        expect(matchesDomain("badexample.com", "*.example.com")).toBe(false);
+    });
+});
+
+describe("createDomainResolver", () => {
+    const resolve = createDomainResolver({ domain: ["example.com", "*.preview.example.com"] });
+
+    test("returns the request's authority when it is allowed", async () => {
+        expect(await resolve(undefined, originHeaders("http://example.com:3000"))).toBe("example.com:3000");
+        expect(await resolve(undefined, originHeaders("https://pr-1.preview.example.com"))).toBe("pr-1.preview.example.com");
+    });
+
+    test("falls back to the first non-wildcard domain without an origin", async () => {
+        expect(await resolve(undefined, new Headers())).toBe("example.com");
+    });
+
+    test("rejects other domains with DOMAIN_NOT_ALLOWED", async () => {
+        const error = await resolve(undefined, originHeaders("https://evil.com")).catch((e: unknown) => e);
+        expect(error).toBeInstanceOf(APIError);
+        expect((error as APIError).body?.code).toBe("DOMAIN_NOT_ALLOWED");
+    });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import { farcasterMiniappAuth } from "../src/miniapp/server";
+import { createShared, isEmailRequired, resolveFarcasterUser } from "../src/shared";
+import type { FarcasterSharedOptions } from "../src/types";
+import { createTestAuth } from "./utils";
+
+const FID = 1234;
+
+async function signUp(options: FarcasterSharedOptions, authOptions: Parameters<typeof createTestAuth>[1] = {}) {
+    const { auth, db } = createTestAuth([farcasterMiniappAuth(options)], authOptions);
+    const shared = createShared(options);
+    const { user } = await resolveFarcasterUser(await auth.$context, shared, { fid: FID, flow: "miniapp" });
+    return { user, db, shared };
+}
+
+describe("emailStrategy", () => {
+    test("placeholder gives new users an unverified placeholder", async () => {
+        const { user, db } = await signUp({ domain: "example.com" });
+        expect(user.email).toBe(`${FID}@farcaster.local`);
+        expect(user.emailVerified).toBe(false);
+        expect(db.account).toHaveLength(1);
+        expect(db.farcasterProfile).toHaveLength(1);
+    });
+
+    test("prompt reports emailRequired until a real email is set", async () => {
+        const { user, shared } = await signUp({ domain: "example.com", emailStrategy: { type: "prompt", domain: "fc.example" } });
+        expect(user.email).toBe(`${FID}@fc.example`);
+        expect(isEmailRequired(shared, user)).toBe(true);
+        expect(isEmailRequired(shared, { ...user, email: "alice@example.org" })).toBe(false);
+    });
+
+    test("none refuses to start while the user table requires an email", async () => {
+        const { auth } = createTestAuth([farcasterMiniappAuth({ domain: "example.com", emailStrategy: { type: "none" } })]);
+        await expect(auth.$context).rejects.toThrow(/nullable email column/);
+    });
+
+    test("none creates users without an email once the column is optional", async () => {
+        const { user } = await signUp(
+            { domain: "example.com", emailStrategy: { type: "none" } },
+            { user: { additionalFields: { email: { type: "string", required: false, unique: true } } } }
+        );
+        expect(user.email ?? null).toBeNull();
+    });
+});
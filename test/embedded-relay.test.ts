@@ -0,0 +1,172 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { toFunctionSelector } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { createSiweMessage } from "viem/siwe";
+import { farcasterCoreAuth } from "../src/core/server";
+import { createTestAuth, request } from "./utils";
+
+const FID = 1234;
+const RELAY_KEY = "test-relay-key";
+const SIWE_URI = "https://example.com/login";
+const ID_REGISTRY = "0x00000000fc6c5f01fc30151999387bb99a9f489b";
+const KEY_REGISTRY = "0x00000000fc1237824fb747abde0ff18990e59b7e";
+const ID_OF = toFunctionSelector("idOf(address)");
+
+const custody = privateKeyToAccount(generatePrivateKey());
+const stranger = privateKeyToAccount(generatePrivateKey());
+
+let rpc: ReturnType<typeof Bun.serve>;
+
+beforeAll(() => {
+    // Local Optimism RPC answering the ID and key registry reads made by @farcaster/auth-client
+    rpc = Bun.serve({
+        port: 0,
+        fetch: async (req) => {
+            const { id, method, params } = await req.json() as { id: number; method: string; params: any[] };
+            const reply = (result: unknown) => Response.json({ jsonrpc: "2.0", id, result });
+
+            if (method === "eth_chainId") return reply("0xa");
+            if (method === "eth_call") {
+                const { to, data } = params[0] as { to?: string; data: string };
+                if (to?.toLowerCase() === ID_REGISTRY && data.startsWith(ID_OF)) {
+                    const owner = `0x${data.slice(-40)}`.toLowerCase();
+                    const fid = owner === custody.address.toLowerCase() ? FID : 0;
+                    return reply(`0x${fid.toString(16).padStart(64, "0")}`);
+                }
+                if (to?.toLowerCase() === KEY_REGISTRY) {
+                    // No auth address registered: state 0, key type 0
+                    return reply(`0x${"0".repeat(128)}`);
+                }
+            }
+            // Contract signature checks fail, so viem falls back to ECDSA recovery
+            return Response.json({ jsonrpc: "2.0", id, error: { code: -32000, message: "execution reverted" } });
+        },
+    });
+});
+
+afterAll(() => {
+    rpc.stop(true);
+});
+
+function createAuth() {
+    return createTestAuth([
+        farcasterCoreAuth({
+            domain: "example.com",
+            siweUri: SIWE_URI,
+            rpcUrl: `http://localhost:${rpc.port}`,
+            embeddedRelay: {
+                authKeys: [RELAY_KEY],
+                connectUrl: "https://client.example/siwf",
+            },
+        }),
+    ]);
+}
+
+async function signMessage(nonce: string, signer = custody) {
+    const message = createSiweMessage({
+        domain: "example.com",
+        address: signer.address,
+        statement: "Farcaster Auth",
+        uri: SIWE_URI,
+        version: "1",
+        chainId: 10,
+        nonce,
+        issuedAt: new Date(),
+        resources: [`farcaster://fid/${FID}`],
+    });
+    return { message, signature: await signer.signMessage({ message }) };
+}
+
+describe("embedded relay", () => {
+    test("signs in through createChannel, authenticate, status and verify", async () => {
+        const { auth, db } = createAuth();
+
+        const channel = await request(auth, "/farcaster/create-channel", { body: {} });
+        expect(channel.status).toBe(200);
+        expect(channel.data.url).toStartWith("https://client.example/siwf?");
+
+        const pending = await request(auth, "/farcaster/relay/v1/channel/status", {
+            headers: { authorization: `Bearer ${channel.data.channelToken}` },
+        });
+        expect(pending.status).toBe(202);
+        expect(pending.data.state).toBe("pending");
+
+        // The Farcaster client posts the message the user signed
+        const signed = await signMessage(channel.data.nonce);
+        const authenticated = await request(auth, "/farcaster/relay/v1/channel/authenticate", {
+            body: { ...signed, fid: FID, username: "alice" },
+            headers: {
+                authorization: `Bearer ${channel.data.channelToken}`,
+                "x-farcaster-auth-relay-key": RELAY_KEY,
+            },
+        });
+        expect(authenticated.status).toBe(200);
+        expect(authenticated.data.authMethod).toBe("custody");
+
+        const status = await request(auth, "/farcaster/channel-status", {
+            body: { channelToken: channel.data.channelToken },
+        });
+        expect(status.status).toBe(200);
+        expect(status.data.state).toBe("completed");
+        expect(status.data.fid).toBe(FID);
+
+        const verified = await request(auth, "/farcaster/verify-signature", {
+            body: {
+                channelToken: channel.data.channelToken,
+                message: status.data.message,
+                signature: status.data.signature,
+                fid: status.data.fid,
+                username: status.data.username,
+            },
+        });
+        expect(verified.status).toBe(200);
+        expect(verified.data.user.fid).toBe(FID);
+        expect(verified.headers.get("set-cookie")).toContain("session_token");
+        expect(db.account.some((account) => account.accountId === String(FID))).toBe(true);
+
+        // The nonce is burned, so the same message can't sign in twice
+        const replayed = await request(auth, "/farcaster/verify-signature", {
+            body: { channelToken: channel.data.channelToken, ...signed, fid: FID },
+        });
+        expect(replayed.status).toBe(401);
+        expect(replayed.data.code).toBe("NONCE_ALREADY_USED");
+    });
+
+    test("refuses to complete a channel with a signature from another address", async () => {
+        const { auth } = createAuth();
+        const channel = await request(auth, "/farcaster/create-channel", { body: {} });
+
+        const authenticated = await request(auth, "/farcaster/relay/v1/channel/authenticate", {
+            body: { ...(await signMessage(channel.data.nonce, stranger)), fid: FID },
+            headers: {
+                authorization: `Bearer ${channel.data.channelToken}`,
+                "x-farcaster-auth-relay-key": RELAY_KEY,
+            },
+        });
+        expect(authenticated.status).toBe(401);
+
+        const status = await request(auth, "/farcaster/relay/v1/channel/status", {
+            headers: { authorization: `Bearer ${channel.data.channelToken}` },
+        });
+        expect(status.data.state).toBe("pending");
+    });
+
+    test("refuses clients without a relay key", async () => {
+        const { auth } = createAuth();
+        const channel = await request(auth, "/farcaster/create-channel", { body: {} });
+
+        const authenticated = await request(auth, "/farcaster/relay/v1/channel/authenticate", {
+            body: { ...(await signMessage(channel.data.nonce)), fid: FID },
+            headers: { authorization: `Bearer ${channel.data.channelToken}` },
+        });
+        expect(authenticated.status).toBe(401);
+    });
+
+    test("requires connectUrl", () => {
+        expect(() => farcasterCoreAuth({
+            domain: "example.com",
+            siweUri: SIWE_URI,
+            embeddedRelay: { authKeys: [RELAY_KEY] } as any,
+        })).toThrow(/connectUrl/);
+    });
+});
@@ -0,0 +1,142 @@
+import { describe, expect, test } from "bun:test";
+import { APIError } from "better-auth/api";
+import { checkMessagePolicy } from "../src/core/message-policy";
+import type { SIWFMessagePolicy, SIWFMessagePolicyErrorCode } from "../src/core/types";
+
+const FID = 1234;
+const SIWE_URI = "https://example.com/login";
+
+function buildMessage(fields: {
+    uri?: string;
+    chainId?: number;
+    issuedAt?: string;
+    expirationTime?: string;
+    notBefore?: string;
+    resources?: string[];
+} = {}): string {
+    const {
+        uri = SIWE_URI,
+        chainId = 10,
+        issuedAt = new Date().toISOString(),
+        expirationTime,
+        notBefore,
+        resources = [`farcaster://fid/${FID}`],
+    } = fields;
+
+    return [
+        "example.com wants you to sign in with your Ethereum account:",
+        "0x0000000000000000000000000000000000000001",
+        "",
+        "Farcaster Auth",
+        "",
+        `URI: ${uri}`,
+        "Version: 1",
+        `Chain ID: ${chainId}`,
+        "Nonce: abcdef123456",
+        `Issued At: ${issuedAt}`,
+        ...(expirationTime ? [`Expiration Time: ${expirationTime}`] : []),
+        ...(notBefore ? [`Not Before: ${notBefore}`] : []),
+        "Resources:",
+        ...resources.map((resource) => `- ${resource}`),
+    ].join("\n");
+}
+
+function check(message: string, policy?: SIWFMessagePolicy) {
+    checkMessagePolicy(message, { fid: FID, siweUri: SIWE_URI, policy });
+}
+
+function expectRejection(message: string, code: SIWFMessagePolicyErrorCode, policy?: SIWFMessagePolicy) {
+    try {
+        check(message, policy);
+    } catch (error) {
+        expect(error).toBeInstanceOf(APIError);
+        expect((error as APIError).status).toBe("UNAUTHORIZED");
+        expect((error as APIError).body?.code).toBe(code);
+        return;
+    }
+    throw new Error(`Expected the message to be rejected with ${code}`);
+}
+
+const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60_000).toISOString();
+
+describe("checkMessagePolicy", () => {
+    test("accepts a valid message", () => {
+        expect(() => check(buildMessage({ expirationTime: minutesFromNow(5) }))).not.toThrow();
+    });
+
+    test("rejects a message without Issued At", () => {
+        expectRejection(buildMessage().replace(/^Issued At: .+\n/m, ""), "MESSAGE_MALFORMED");
+    });
+
+    test("rejects invalid timestamps", () => {
+        expectRejection(buildMessage({ expirationTime: "not-a-date" }), "MESSAGE_MALFORMED");
+    });
+
+    test("rejects a URI mismatch", () => {
+        expectRejection(buildMessage({ uri: "https://evil.example/login" }), "MESSAGE_URI_MISMATCH");
+    });
+
+    test("skips the URI check when disabled", () => {
+        expect(() => check(buildMessage({ uri: "https://other.example" }), { checkUri: false })).not.toThrow();
+    });
+
+    test("matches the URI's host against the domain without a siweUri", () => {
+        const message = buildMessage({ uri: "https://example.com/app" });
+        expect(() => checkMessagePolicy(message, { fid: FID, domain: "example.com" })).not.toThrow();
+        try {
+            checkMessagePolicy(message, { fid: FID, domain: "other.example" });
+        } catch (error) {
+            expect((error as APIError).body?.code).toBe("MESSAGE_URI_MISMATCH");
+            return;
+        }
+        throw new Error("Expected the message to be rejected");
+    });
+
+    test("rejects a message issued in the future", () => {
+        expectRejection(buildMessage({ issuedAt: minutesFromNow(5) }), "MESSAGE_ISSUED_IN_FUTURE");
+    });
+
+    test("tolerates clock skew on Issued At", () => {
+        expect(() => check(buildMessage({ issuedAt: minutesFromNow(0.5) }))).not.toThrow();
+    });
+
+    test("rejects a message older than maxAge", () => {
+        expectRejection(buildMessage({ issuedAt: minutesFromNow(-20) }), "MESSAGE_TOO_OLD");
+    });
+
+    test("skips the age check when maxAge is 0", () => {
+        expect(() => check(buildMessage({ issuedAt: minutesFromNow(-20) }), { maxAge: 0 })).not.toThrow();
+    });
+
+    test("rejects a message without Expiration Time when required", () => {
+        expectRejection(buildMessage(), "MESSAGE_EXPIRATION_REQUIRED", { requireExpirationTime: true });
+    });
+
+    test("rejects an expired message", () => {
+        expectRejection(buildMessage({ expirationTime: minutesFromNow(-5) }), "MESSAGE_EXPIRED");
+    });
+
+    test("rejects a message that is not yet valid", () => {
+        expectRejection(buildMessage({ notBefore: minutesFromNow(5) }), "MESSAGE_NOT_YET_VALID");
+    });
+
+    test("rejects a chain ID outside allowedChainIds", () => {
+        expectRejection(buildMessage({ chainId: 1 }), "MESSAGE_CHAIN_ID_NOT_ALLOWED");
+    });
+
+    test("accepts any chain ID when allowedChainIds is empty", () => {
+        expect(() => check(buildMessage({ chainId: 1 }), { allowedChainIds: [] })).not.toThrow();
+    });
+
+    test("rejects a message without the FID resource", () => {
+        expectRejection(buildMessage({ resources: [] }), "MESSAGE_FID_RESOURCE_MISMATCH");
+    });
+
+    test("rejects a resource for another FID", () => {
+        expectRejection(buildMessage({ resources: [`farcaster://fid/${FID + 1}`] }), "MESSAGE_FID_RESOURCE_MISMATCH");
+    });
+
+    test("skips the FID resource check when disabled", () => {
+        expect(() => check(buildMessage({ resources: [] }), { requireFidResource: false })).not.toThrow();
+    });
+});
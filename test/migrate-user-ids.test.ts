@@ -0,0 +1,111 @@
+import { describe, expect, test } from "bun:test";
+import { farcasterMiniappAuth } from "../src/miniapp/server";
+import { migrateLegacyUserIds } from "../src/users";
+import { createTestAuth } from "./utils";
+
+const FID = 1234;
+const LEGACY_ID = `fid:${FID}`;
+
+/**
+ * Create a user with a legacy `fid:` ID and a row in every model referencing it
+ */
+async function setup() {
+    const { auth, db } = createTestAuth([
+        farcasterMiniappAuth({ domain: "example.com", auditLog: true, notifications: { verifyAppKey: async () => true } }),
+    ]);
+    const { adapter } = await auth.$context;
+    const now = new Date();
+
+    await adapter.create({
+        model: "user",
+        data: { id: LEGACY_ID, fid: FID, name: "Alice", email: "alice@example.com", emailVerified: false, createdAt: now, updatedAt: now },
+        forceAllowId: true,
+    });
+    await adapter.create({
+        model: "session",
+        data: { userId: LEGACY_ID, token: "session-token", expiresAt: new Date(Date.now() + 60000), createdAt: now, updatedAt: now },
+    });
+    await adapter.create({
+        model: "account",
+        data: { userId: LEGACY_ID, providerId: "Farcaster", accountId: String(FID), createdAt: now, updatedAt: now },
+    });
+    await adapter.create({
+        model: "farcasterProfile",
+        data: { userId: LEGACY_ID, fid: FID, lastSyncedAt: now },
+    });
+    await adapter.create({
+        model: "farcasterAuthEvent",
+        data: { type: "signin", outcome: "success", fid: FID, userId: LEGACY_ID, createdAt: now },
+    });
+    await adapter.create({
+        model: "farcasterNotificationToken",
+        data: { fid: FID, url: "https://client.example.com/notify", token: "token-1", enabled: true, createdAt: now, updatedAt: now },
+    });
+
+    return { auth, db };
+}
+
+describe("migrateLegacyUserIds", () => {
+    test("recreates the user under a new ID and moves every reference", async () => {
+        const { auth, db } = await setup();
+
+        const result = await migrateLegacyUserIds(auth);
+
+        expect(result.migrated).toBe(1);
+        const [{ from, to }] = result.ids;
+        expect(from).toBe(LEGACY_ID);
+        expect(to).not.toStartWith("fid:");
+
+        expect(db.user).toHaveLength(1);
+        expect(db.user[0]).toMatchObject({ id: to, fid: FID, email: "alice@example.com", name: "Alice" });
+        expect(db.session[0].userId).toBe(to);
+        expect(db.account[0].userId).toBe(to);
+        expect(db.farcasterProfile[0].userId).toBe(to);
+        expect(db.farcasterAuthEvent[0].userId).toBe(to);
+        // Keyed by FID, untouched
+        expect(db.farcasterNotificationToken[0].fid).toBe(FID);
+    });
+
+    test("uses generateUserId for the new ID", async () => {
+        const { auth, db } = await setup();
+
+        const result = await migrateLegacyUserIds(auth, { generateUserId: (fid) => `farcaster_${fid}` });
+
+        expect(result.ids).toEqual([{ from: LEGACY_ID, to: `farcaster_${FID}` }]);
+        expect(db.account[0].userId).toBe(`farcaster_${FID}`);
+    });
+
+    test("rewrites extra references", async () => {
+        const { auth, db } = await setup();
+        // A column outside the default references holding the user ID
+        const { adapter } = await auth.$context;
+        await adapter.create({
+            model: "verification",
+            data: { identifier: "pending-invite", value: LEGACY_ID, expiresAt: new Date(Date.now() + 60000) },
+        });
+
+        const { ids } = await migrateLegacyUserIds(auth, { references: [{ model: "verification", field: "value" }] });
+
+        expect(db.verification[0].value).toBe(ids[0].to);
+    });
+
+    test("only lists the users with dryRun", async () => {
+        const { auth, db } = await setup();
+
+        const result = await migrateLegacyUserIds(auth, { dryRun: true });
+
+        expect(result.ids).toEqual([{ from: LEGACY_ID, to: null }]);
+        expect(db.user[0].id).toBe(LEGACY_ID);
+        expect(db.session[0].userId).toBe(LEGACY_ID);
+    });
+
+    test("skips users generateUserId gives another fid: ID", async () => {
+        const { auth, db } = await setup();
+
+        const result = await migrateLegacyUserIds(auth, { generateUserId: (fid) => `fid:${fid}` });
+
+        expect(result.migrated).toBe(0);
+        expect(result.skipped).toEqual([LEGACY_ID]);
+        expect(db.user[0].id).toBe(LEGACY_ID);
+    });
+});
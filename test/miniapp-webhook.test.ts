@@ -0,0 +1,90 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { farcasterMiniappAuth } from "../src/miniapp/server";
+import { createTestAuth, request } from "./utils";
+
+const FID = 1234;
+const NOTIFICATION_URL = "https://client.example.com/notify";
+
+let keyPair: CryptoKeyPair;
+let appKey: string;
+
+beforeAll(async () => {
+    keyPair = await crypto.subtle.generateKey({ name: "Ed25519" }, true, ["sign", "verify"]) as CryptoKeyPair;
+    const publicKey = new Uint8Array(await crypto.subtle.exportKey("raw", keyPair.publicKey));
+    appKey = `0x${Buffer.from(publicKey).toString("hex")}`;
+});
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+/**
+ * Sign an event as a Farcaster client does, as a JSON Farcaster Signature envelope
+ */
+async function signEvent(event: unknown) {
+    const header = encode({ fid: FID, type: "app_key", key: appKey });
+    const payload = encode(event);
+    const signature = await crypto.subtle.sign({ name: "Ed25519" }, keyPair.privateKey, new TextEncoder().encode(`${header}.${payload}`));
+    return { header, payload, signature: Buffer.from(signature).toString("base64url") };
+}
+
+function createAuth(verifyAppKey: (fid: number, appKey: string) => Promise<boolean> = async () => true) {
+    return createTestAuth([farcasterMiniappAuth({ domain: "example.com", notifications: { verifyAppKey } })]);
+}
+
+const addedEvent = {
+    event: "miniapp_added",
+    notificationDetails: { url: NOTIFICATION_URL, token: "token-1" },
+};
+
+describe("miniapp webhook", () => {
+    test("stores the notification token of a validly signed event", async () => {
+        const checked: [number, string][] = [];
+        const { auth, db } = createAuth(async (fid, key) => {
+            checked.push([fid, key]);
+            return true;
+        });
+
+        const response = await request(auth, "/farcaster-miniapp/webhook", { body: await signEvent(addedEvent) });
+
+        expect(response.status).toBe(200);
+        expect(checked).toEqual([[FID, appKey]]);
+        expect(db.farcasterNotificationToken).toHaveLength(1);
+        expect(db.farcasterNotificationToken[0]).toMatchObject({ fid: FID, url: NOTIFICATION_URL, token: "token-1", enabled: true });
+    });
+
+    test("rejects a tampered payload", async () => {
+        const { auth, db } = createAuth();
+        const envelope = await signEvent(addedEvent);
+        const tampered = {
+            ...envelope,
+            payload: encode({ ...addedEvent, notificationDetails: { url: "https://evil.example.com", token: "token-1" } }),
+        };
+
+        const response = await request(auth, "/farcaster-miniapp/webhook", { body: tampered });
+
+        expect(response.status).toBe(401);
+        expect(response.data.code).toBe("INVALID_SIGNATURE");
+        expect(db.farcasterNotificationToken).toHaveLength(0);
+    });
+
+    test("rejects an app key that isn't a signer of the FID", async () => {
+        const { auth, db } = createAuth(async () => false);
+
+        const response = await request(auth, "/farcaster-miniapp/webhook", { body: await signEvent(addedEvent) });
+
+        expect(response.status).toBe(401);
+        expect(response.data.code).toBe("INVALID_APP_KEY");
+        expect(db.farcasterNotificationToken).toHaveLength(0);
+    });
+
+    test("disables the tokens when notifications are turned off", async () => {
+        const { auth, db } = createAuth();
+        await request(auth, "/farcaster-miniapp/webhook", { body: await signEvent(addedEvent) });
+
+        const response = await request(auth, "/farcaster-miniapp/webhook", {
+            body: await signEvent({ event: "notifications_disabled" }),
+        });
+
+        expect(response.status).toBe(200);
+        expect(db.farcasterNotificationToken[0].enabled).toBe(false);
+    });
+});
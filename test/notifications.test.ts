@@ -0,0 +1,143 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import type { AuthContext } from "better-auth";
+import { sendMiniappNotification, type FarcasterSendNotificationParams } from "../src/miniapp/notifications";
+import { farcasterMiniappAuth } from "../src/miniapp/server";
+import { createTestAuth, type MemoryDb } from "./utils";
+
+interface NotificationRequest {
+    path: string;
+    notificationId: string;
+    tokens: string[];
+}
+
+type ClientResult = { successfulTokens: string[]; invalidTokens: string[]; rateLimitedTokens: string[] };
+
+let client: ReturnType<typeof Bun.serve>;
+let requests: NotificationRequest[] = [];
+// Answers a notification request; every token succeeds by default
+let respond: (tokens: string[]) => ClientResult | null;
+
+beforeAll(() => {
+    // Farcaster client notification URLs: each path is a different client
+    client = Bun.serve({
+        port: 0,
+        fetch: async (req) => {
+            const body = await req.json() as { notificationId: string; tokens: string[] };
+            requests.push({ path: new URL(req.url).pathname, notificationId: body.notificationId, tokens: body.tokens });
+            const result = respond(body.tokens);
+            return result ? Response.json({ result }) : new Response(null, { status: 500 });
+        },
+    });
+});
+
+afterAll(() => {
+    client.stop(true);
+});
+
+beforeEach(() => {
+    requests = [];
+    respond = (tokens) => ({ successfulTokens: tokens, invalidTokens: [], rateLimitedTokens: [] });
+});
+
+const clientUrl = (path: string) => new URL(path, client.url).href;
+
+function notification(notificationId = "welcome"): FarcasterSendNotificationParams {
+    return { notificationId, title: "Hello", body: "Welcome back", targetUrl: "https://example.com" };
+}
+
+async function setup(tokens: { fid: number; path: string; token: string }[]): Promise<{ context: AuthContext; db: MemoryDb }> {
+    const { auth, db } = createTestAuth([
+        farcasterMiniappAuth({ domain: "example.com", notifications: { verifyAppKey: async () => true } }),
+    ]);
+    const context = await auth.$context;
+    for (const { fid, path, token } of tokens) {
+        await context.adapter.create({
+            model: "farcasterNotificationToken",
+            data: { fid, url: clientUrl(path), token, enabled: true, createdAt: new Date(), updatedAt: new Date() },
+        });
+    }
+    return { context, db };
+}
+
+describe("sendMiniappNotification", () => {
+    test("sends at most 100 tokens per request to each client URL", async () => {
+        const tokens = [
+            ...Array.from({ length: 150 }, (_, i) => ({ fid: i + 1, path: "/warpcast", token: `w${i}` })),
+            ...Array.from({ length: 20 }, (_, i) => ({ fid: i + 1, path: "/other", token: `o${i}` })),
+        ];
+        const { context } = await setup(tokens);
+
+        const result = await sendMiniappNotification(context, { ...notification(), fids: tokens.map(({ fid }) => fid) });
+
+        const sizes = requests.map(({ path, tokens }) => `${path}:${tokens.length}`).sort();
+        expect(sizes).toEqual(["/other:20", "/warpcast:100", "/warpcast:50"]);
+        expect(result.sent).toHaveLength(150);
+        expect(result.failed).toEqual([]);
+    });
+
+    test("reports FIDs without an enabled token", async () => {
+        const { context } = await setup([{ fid: 1, path: "/warpcast", token: "a" }]);
+
+        const result = await sendMiniappNotification(context, { ...notification(), fids: [1, 2] });
+
+        expect(result.sent).toEqual([1]);
+        expect(result.noToken).toEqual([2]);
+    });
+
+    test("skips tokens already sent the same notification", async () => {
+        const { context } = await setup([{ fid: 1, path: "/warpcast", token: "a" }]);
+
+        await sendMiniappNotification(context, { ...notification(), fids: [1] });
+        const retry = await sendMiniappNotification(context, { ...notification(), fids: [1] });
+        const other = await sendMiniappNotification(context, { ...notification("another"), fids: [1] });
+
+        expect(retry.sent).toEqual([]);
+        expect(retry.duplicate).toEqual([1]);
+        expect(other.sent).toEqual([1]);
+        expect(requests.map(({ notificationId }) => notificationId)).toEqual(["welcome", "another"]);
+    });
+
+    test("releases the reservation when the client can't be reached", async () => {
+        const { context, db } = await setup([{ fid: 1, path: "/warpcast", token: "a" }]);
+        respond = () => null;
+
+        const result = await sendMiniappNotification(context, { ...notification(), fids: [1] });
+
+        expect(result.failed).toEqual([1]);
+        expect(db.farcasterNotificationDelivery).toHaveLength(0);
+
+        // A retry with the same ID is delivered
+        respond = (tokens) => ({ successfulTokens: tokens, invalidTokens: [], rateLimitedTokens: [] });
+        const retry = await sendMiniappNotification(context, { ...notification(), fids: [1] });
+        expect(retry.sent).toEqual([1]);
+        expect(db.farcasterNotificationDelivery).toHaveLength(1);
+    });
+
+    test("releases the reservation of rate-limited tokens only", async () => {
+        const { context, db } = await setup([
+            { fid: 1, path: "/warpcast", token: "a" },
+            { fid: 2, path: "/warpcast", token: "b" },
+        ]);
+        respond = () => ({ successfulTokens: ["a"], invalidTokens: [], rateLimitedTokens: ["b"] });
+
+        const result = await sendMiniappNotification(context, { ...notification(), fids: [1, 2] });
+
+        expect(result.sent).toEqual([1]);
+        expect(result.rateLimited).toEqual([2]);
+        expect(db.farcasterNotificationDelivery.map(({ token }) => token)).toEqual(["a"]);
+    });
+
+    test("deletes tokens the client reports invalid", async () => {
+        const { context, db } = await setup([
+            { fid: 1, path: "/warpcast", token: "a" },
+            { fid: 2, path: "/warpcast", token: "b" },
+        ]);
+        respond = () => ({ successfulTokens: ["a"], invalidTokens: ["b"], rateLimitedTokens: [] });
+
+        const result = await sendMiniappNotification(context, { ...notification(), fids: [1, 2] });
+
+        expect(result.invalid).toEqual([2]);
+        expect(db.farcasterNotificationToken.map(({ token }) => token)).toEqual(["a"]);
+        expect(db.farcasterNotificationDelivery.map(({ token }) => token)).toEqual(["a"]);
+    });
+});
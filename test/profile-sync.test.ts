@@ -0,0 +1,42 @@
+import { describe, expect, test } from "bun:test";
+import { farcasterMiniappAuth } from "../src/miniapp/server";
+import { createShared, resolveFarcasterUser } from "../src/shared";
+import type { FarcasterSharedOptions } from "../src/types";
+import { createTestAuth } from "./utils";
+
+const FID = 1234;
+
+async function signInTwice(options: FarcasterSharedOptions) {
+    const { auth } = createTestAuth([farcasterMiniappAuth(options)]);
+    const context = await auth.$context;
+    const shared = createShared(options);
+
+    const first = await resolveFarcasterUser(context, shared, {
+        fid: FID,
+        flow: "miniapp",
+        profile: { displayName: "Alice", pfpUrl: "https://example.com/a.png" },
+    });
+    const second = await resolveFarcasterUser(context, shared, {
+        fid: FID,
+        flow: "miniapp",
+        profile: { displayName: "Alice Renamed", pfpUrl: "https://example.com/b.png" },
+    });
+    return { first, second };
+}
+
+describe("profileSync", () => {
+    test("fills new users from Farcaster and leaves returning users alone by default", async () => {
+        const { first, second } = await signInTwice({ domain: "example.com" });
+        expect(first.isNewUser).toBe(true);
+        expect(first.user.name).toBe("Alice");
+        expect(second.isNewUser).toBe(false);
+        expect(second.user.name).toBe("Alice");
+        expect(second.user.image).toBe("https://example.com/a.png");
+    });
+
+    test("refreshes returning users with onEverySignIn", async () => {
+        const { second } = await signInTwice({ domain: "example.com", profileSync: { policy: "onEverySignIn" } });
+        expect(second.user.name).toBe("Alice Renamed");
+        expect(second.user.image).toBe("https://example.com/b.png");
+    });
+});
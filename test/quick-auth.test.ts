@@ -0,0 +1,121 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { APIError } from "better-auth/api";
+import { Errors } from "@farcaster/quick-auth";
+import { exportJWK, generateKeyPair, SignJWT, type CryptoKey, type JWTPayload } from "jose";
+import { createDomainResolver } from "../src/domain";
+import { createQuickAuthVerifier, verifyQuickAuthRequest } from "../src/miniapp/quick-auth";
+
+const DOMAIN = "example.com";
+const FID = 1234;
+
+let server: ReturnType<typeof Bun.serve>;
+let origin: string;
+let signingKey: CryptoKey;
+let otherKey: CryptoKey;
+
+beforeAll(async () => {
+    const keyPair = await generateKeyPair("ES256");
+    signingKey = keyPair.privateKey;
+    otherKey = (await generateKeyPair("ES256")).privateKey;
+    const jwk = { ...(await exportJWK(keyPair.publicKey)), kid: "test-key", alg: "ES256" };
+
+    // Local Quick Auth issuer serving its signing keys
+    server = Bun.serve({
+        port: 0,
+        fetch: (request) =>
+            new URL(request.url).pathname === "/.well-known/jwks.json"
+                ? Response.json({ keys: [jwk] })
+                : new Response("Not found", { status: 404 }),
+    });
+    origin = `http://localhost:${server.port}`;
+});
+
+afterAll(() => {
+    server.stop(true);
+});
+
+async function signToken(
+    claims: JWTPayload = {},
+    options: { key?: CryptoKey; issuer?: string; audience?: string; expiresIn?: string | number } = {}
+): Promise<string> {
+    const jwt = new SignJWT({ sub: String(FID), ...claims })
+        .setProtectedHeader({ alg: "ES256", kid: "test-key" })
+        .setIssuer(options.issuer ?? origin)
+        .setAudience(options.audience ?? DOMAIN)
+        .setIssuedAt();
+    if (options.expiresIn !== undefined) {
+        jwt.setExpirationTime(options.expiresIn);
+    }
+    return jwt.sign(options.key ?? signingKey);
+}
+
+const createVerifier = () => createQuickAuthVerifier(createDomainResolver({ domain: DOMAIN }), { origin });
+
+async function expectInvalidToken(token: string) {
+    await expect(createVerifier()(token)).rejects.toBeInstanceOf(Errors.InvalidTokenError);
+}
+
+describe("createQuickAuthVerifier", () => {
+    test("verifies a token signed by the issuer", async () => {
+        const claims = await createVerifier()(await signToken({}, { expiresIn: "1h" }));
+        expect(claims.fid).toBe(FID);
+        expect(claims.exp - claims.iat).toBe(3600);
+    });
+
+    test("rejects an expired token", async () => {
+        await expectInvalidToken(await signToken({}, { expiresIn: Math.floor(Date.now() / 1000) - 60 }));
+    });
+
+    test("accepts a recently expired token within the clock tolerance", async () => {
+        const verify = createQuickAuthVerifier(createDomainResolver({ domain: DOMAIN }), { origin, clockTolerance: 120 });
+        const token = await signToken({}, { expiresIn: Math.floor(Date.now() / 1000) - 60 });
+        expect((await verify(token)).fid).toBe(FID);
+    });
+
+    test("rejects a token issued to another domain", async () => {
+        await expectInvalidToken(await signToken({}, { audience: "evil.example", expiresIn: "1h" }));
+    });
+
+    test("rejects a token from another issuer", async () => {
+        await expectInvalidToken(await signToken({}, { issuer: "https://auth.evil.example", expiresIn: "1h" }));
+    });
+
+    test("rejects a token signed with an unknown key", async () => {
+        await expectInvalidToken(await signToken({}, { key: otherKey, expiresIn: "1h" }));
+    });
+
+    test("rejects a token without exp", async () => {
+        await expectInvalidToken(await signToken());
+    });
+
+    test("rejects a token without a valid FID", async () => {
+        await expectInvalidToken(await signToken({ sub: "not-a-fid" }, { expiresIn: "1h" }));
+    });
+});
+
+describe("verifyQuickAuthRequest", () => {
+    const request = (token?: string) =>
+        new Request(`https://${DOMAIN}/api/me`, {
+            headers: token ? { authorization: `Bearer ${token}` } : {},
+        });
+
+    test("returns the claims of a valid bearer token", async () => {
+        const token = await signToken({}, { expiresIn: "1h" });
+        const { fid } = await verifyQuickAuthRequest(request(token), { domain: DOMAIN, quickAuth: { origin } });
+        expect(fid).toBe(FID);
+    });
+
+    test("rejects a request without a token", async () => {
+        const error = await verifyQuickAuthRequest(request(), { domain: DOMAIN, quickAuth: { origin } }).catch((e) => e);
+        expect(error).toBeInstanceOf(APIError);
+        expect(error.body?.code).toBe("INVALID_TOKEN");
+    });
+
+    test("rejects an expired bearer token", async () => {
+        const token = await signToken({}, { expiresIn: Math.floor(Date.now() / 1000) - 60 });
+        const error = await verifyQuickAuthRequest(request(token), { domain: DOMAIN, quickAuth: { origin } }).catch((e) => e);
+        expect(error).toBeInstanceOf(APIError);
+        expect(error.status).toBe("UNAUTHORIZED");
+        expect(error.body?.code).toBe("INVALID_TOKEN");
+    });
+});
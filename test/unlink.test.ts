@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import { farcasterMiniappAuth } from "../src/miniapp/server";
+import type { FarcasterSharedOptions } from "../src/types";
+import { createTestAuth, request } from "./utils";
+
+const FID = 1234;
+
+/**
+ * Sign up with a password, link an FID, and optionally drop the password account
+ * so Farcaster is the user's only sign-in method
+ */
+async function setup(options: Partial<FarcasterSharedOptions>, farcasterOnly: boolean) {
+    const { auth, db } = createTestAuth([farcasterMiniappAuth({ domain: "example.com", ...options })]);
+    const signUp = await request(auth, "/sign-up/email", {
+        body: { email: "alice@example.com", password: "correct-horse-battery", name: "Alice" },
+    });
+    const cookie = signUp.headers.get("set-cookie")!.split(";")[0];
+    const userId: string = signUp.data.user.id;
+
+    const context = await auth.$context;
+    await context.adapter.update({ model: "user", where: [{ field: "id", value: userId }], update: { fid: FID } });
+    if (farcasterOnly) {
+        await context.adapter.deleteMany({ model: "account", where: [{ field: "userId", value: userId }] });
+    }
+    await context.adapter.create({
+        model: "account",
+        data: { userId, providerId: "Farcaster", accountId: String(FID), createdAt: new Date(), updatedAt: new Date() },
+    });
+
+    const unlink = (body: { force?: boolean } = {}) =>
+        request(auth, "/farcaster-miniapp/unlink", { body, headers: { cookie } });
+    return { db, userId, unlink };
+}
+
+describe("unlink", () => {
+    test("unlinks when another sign-in method remains", async () => {
+        const { db, userId, unlink } = await setup({}, false);
+
+        const response = await unlink();
+
+        expect(response.status).toBe(200);
+        expect(response.data.user.fid).toBeNull();
+        expect(db.account.filter((account) => account.userId === userId).map(({ providerId }) => providerId)).toEqual(["credential"]);
+    });
+
+    test("refuses to remove the last sign-in method", async () => {
+        const { db, unlink } = await setup({}, true);
+
+        const response = await unlink();
+
+        expect(response.status).toBe(400);
+        expect(response.data.code).toBe("LAST_SIGN_IN_METHOD");
+        expect(db.user[0].fid).toBe(FID);
+        expect(db.account).toHaveLength(1);
+    });
+
+    test("refuses force without canForceUnlink", async () => {
+        const { db, unlink } = await setup({}, true);
+
+        const response = await unlink({ force: true });
+
+        expect(response.status).toBe(403);
+        expect(response.data.code).toBe("FORCE_UNLINK_NOT_ALLOWED");
+        expect(db.user[0].fid).toBe(FID);
+    });
+
+    test("refuses force when canForceUnlink denies the user", async () => {
+        const { db, unlink } = await setup({ canForceUnlink: (user) => user.email === "admin@example.com" }, true);
+
+        const response = await unlink({ force: true });
+
+        expect(response.status).toBe(403);
+        expect(response.data.code).toBe("FORCE_UNLINK_NOT_ALLOWED");
+        expect(db.user[0].fid).toBe(FID);
+    });
+
+    test("removes the last sign-in method when canForceUnlink allows it", async () => {
+        const checked: number[] = [];
+        const { db, unlink } = await setup({
+            canForceUnlink: async (user) => {
+                checked.push(user.fid!);
+                return true;
+            },
+        }, true);
+
+        const response = await unlink({ force: true });
+
+        expect(response.status).toBe(200);
+        expect(checked).toEqual([FID]);
+        expect(db.user[0].fid).toBeNull();
+        expect(db.account).toHaveLength(0);
+    });
+});
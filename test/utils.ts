@@ -0,0 +1,53 @@
+import { betterAuth, type BetterAuthOptions, type BetterAuthPlugin } from "better-auth";
+import { memoryAdapter } from "better-auth/adapters/memory";
+import { getAuthTables } from "better-auth/db";
+
+export const BASE_URL = "https://example.com";
+
+export type MemoryDb = Record<string, Record<string, any>[]>;
+
+/**
+ * Create a Better Auth instance on the in-memory adapter, with every table of its plugins
+ */
+export function createTestAuth(
+    plugins: BetterAuthPlugin[],
+    options: Omit<BetterAuthOptions, "plugins" | "database"> = {}
+) {
+    const db: MemoryDb = {};
+    // Typed with the plain options, so `$context` is a regular AuthContext
+    const auth = betterAuth<BetterAuthOptions>({
+        baseURL: BASE_URL,
+        secret: "better-auth-farcaster-plugin-test-secret",
+        emailAndPassword: { enabled: true },
+        rateLimit: { enabled: false },
+        logger: { disabled: true },
+        ...options,
+        database: memoryAdapter(db),
+        plugins,
+    });
+    for (const table of Object.values(getAuthTables(auth.options))) {
+        db[table.modelName] = [];
+    }
+    return { auth, db };
+}
+
+/**
+ * Call an auth endpoint over HTTP, as a browser on the app's origin would
+ */
+export async function request(
+    auth: { handler: (request: Request) => Promise<Response> },
+    path: string,
+    init: { method?: string; body?: unknown; headers?: Record<string, string> } = {}
+) {
+    const response = await auth.handler(new Request(`${BASE_URL}/api/auth${path}`, {
+        method: init.method ?? (init.body === undefined ? "GET" : "POST"),
+        headers: {
+            origin: BASE_URL,
+            ...(init.body === undefined ? {} : { "content-type": "application/json" }),
+            ...init.headers,
+        },
+        body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    }));
+    const text = await response.text();
+    return { status: response.status, headers: response.headers, data: text ? JSON.parse(text) : null };
+}
@@ -0,0 +1,167 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { makeSignature } from "better-auth/crypto";
+import { farcasterMiniappAuth } from "../src/miniapp/server";
+import type { FarcasterWebhookOptions } from "../src/types";
+import { dispatchWebhookEvent, verifyFarcasterWebhook } from "../src/webhooks";
+import { createTestAuth } from "./utils";
+
+const SECRET = "webhook-secret";
+const FID = 1234;
+
+interface ReceivedWebhook {
+    headers: Headers;
+    body: string;
+}
+
+let receiver: ReturnType<typeof Bun.serve>;
+let received: ReceivedWebhook[] = [];
+// Statuses the receiver answers with, in order; 200 once empty
+let statuses: number[] = [];
+
+beforeAll(() => {
+    receiver = Bun.serve({
+        port: 0,
+        fetch: async (req) => {
+            received.push({ headers: req.headers, body: await req.text() });
+            return new Response(null, { status: statuses.shift() ?? 200 });
+        },
+    });
+});
+
+afterAll(() => {
+    receiver.stop(true);
+});
+
+beforeEach(() => {
+    received = [];
+    statuses = [];
+});
+
+async function dispatch(webhooks: Omit<FarcasterWebhookOptions, "endpoints">) {
+    const deliveries: Promise<unknown>[] = [];
+    const options: FarcasterWebhookOptions = {
+        endpoints: [{ url: receiver.url.href, secret: SECRET }],
+        ...webhooks,
+    };
+    const { auth, db } = createTestAuth([farcasterMiniappAuth({ domain: "example.com", webhooks: options })], {
+        advanced: { backgroundTasks: { handler: (promise) => void deliveries.push(promise) } },
+    });
+
+    dispatchWebhookEvent(await auth.$context, options, "user.created", {
+        user: { id: "user-1", fid: FID },
+        fid: FID,
+        flow: "miniapp",
+    });
+    await Promise.all(deliveries);
+    return db;
+}
+
+async function signedHeaders(id: string, timestamp: number, body: string, secret = SECRET) {
+    const signature = await makeSignature(`${id}.${timestamp}.${body}`, secret);
+    return {
+        "x-farcaster-webhook-id": id,
+        "x-farcaster-webhook-timestamp": String(timestamp),
+        "x-farcaster-webhook-signature": `v1=${signature}`,
+    };
+}
+
+describe("webhook delivery", () => {
+    test("signs each request with HMAC over the event ID, timestamp and body", async () => {
+        await dispatch({});
+
+        expect(received).toHaveLength(1);
+        const [{ headers, body }] = received;
+        const id = headers.get("x-farcaster-webhook-id")!;
+        const timestamp = headers.get("x-farcaster-webhook-timestamp")!;
+        const expected = await makeSignature(`${id}.${timestamp}.${body}`, SECRET);
+        expect(headers.get("x-farcaster-webhook-signature")).toBe(`v1=${expected}`);
+
+        const event = await verifyFarcasterWebhook({ payload: body, headers, secret: SECRET });
+        expect(event.id).toBe(id);
+        expect(event.type).toBe("user.created");
+        expect(event.data.fid).toBe(FID);
+    });
+
+    test("retries failed attempts with the configured backoff", async () => {
+        statuses = [500, 503];
+        const delays: number[] = [];
+
+        const db = await dispatch({
+            maxAttempts: 3,
+            retryDelay: (attempt) => {
+                delays.push(attempt);
+                return 0;
+            },
+        });
+
+        expect(received).toHaveLength(3);
+        expect(delays).toEqual([1, 2]);
+        // Every attempt carries the same event ID
+        expect(new Set(received.map(({ headers }) => headers.get("x-farcaster-webhook-id"))).size).toBe(1);
+        expect(db.farcasterWebhookDeadLetter).toHaveLength(0);
+    });
+
+    test("stores a dead letter once every attempt has failed", async () => {
+        statuses = [500, 500];
+
+        const db = await dispatch({ maxAttempts: 2, retryDelay: () => 0 });
+
+        expect(received).toHaveLength(2);
+        expect(db.farcasterWebhookDeadLetter).toHaveLength(1);
+        const [deadLetter] = db.farcasterWebhookDeadLetter;
+        expect(deadLetter.eventType).toBe("user.created");
+        expect(deadLetter.url).toBe(receiver.url.href);
+        expect(deadLetter.attempts).toBe(2);
+        expect(deadLetter.lastError).toBe("HTTP 500");
+        expect(deadLetter.payload).toBe(received[1].body);
+        expect(deadLetter.eventId).toBe(JSON.parse(deadLetter.payload).id);
+    });
+});
+
+describe("verifyFarcasterWebhook", () => {
+    const body = JSON.stringify({ id: "event-1", type: "user.created", createdAt: new Date().toISOString(), data: { fid: FID } });
+    const now = () => Math.floor(Date.now() / 1000);
+
+    test("accepts a request signed with the endpoint secret", async () => {
+        const event = await verifyFarcasterWebhook({
+            payload: body,
+            headers: await signedHeaders("event-1", now(), body),
+            secret: SECRET,
+        });
+        expect(event.id).toBe("event-1");
+    });
+
+    test("rejects a tampered body", async () => {
+        const headers = await signedHeaders("event-1", now(), body);
+        const tampered = body.replace(`"fid":${FID}`, `"fid":1`);
+
+        await expect(verifyFarcasterWebhook({ payload: tampered, headers, secret: SECRET })).rejects.toThrow(
+            "Invalid Farcaster webhook signature"
+        );
+    });
+
+    test("rejects a request signed with another secret", async () => {
+        const headers = await signedHeaders("event-1", now(), body, "other-secret");
+
+        await expect(verifyFarcasterWebhook({ payload: body, headers, secret: SECRET })).rejects.toThrow(
+            "Invalid Farcaster webhook signature"
+        );
+    });
+
+    test("rejects a request outside the timestamp tolerance", async () => {
+        const headers = await signedHeaders("event-1", now() - 301, body);
+
+        await expect(verifyFarcasterWebhook({ payload: body, headers, secret: SECRET })).rejects.toThrow(
+            "Farcaster webhook timestamp is outside the tolerance"
+        );
+        // A wider tolerance accepts the same request
+        const event = await verifyFarcasterWebhook({ payload: body, headers, secret: SECRET, tolerance: 600 });
+        expect(event.id).toBe("event-1");
+    });
+
+    test("rejects a request without signature headers", async () => {
+        await expect(verifyFarcasterWebhook({ payload: body, headers: new Headers(), secret: SECRET })).rejects.toThrow(
+            "Missing Farcaster webhook signature headers"
+        );
+    });
+});